@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calendarNoteTitle,
+  formatDailyNoteTitle,
+  formatMonthlyNoteTitle,
+  formatQuarterlyNoteTitle,
+  formatWeeklyNoteTitle,
+  parseCalendarFilename,
+} from './calendar-notes';
+
+describe('parseCalendarFilename', () => {
+  it('parses daily notes', () => {
+    const ref = parseCalendarFilename('20250301.txt');
+    expect(ref?.kind).toBe('daily');
+    expect(ref?.date.getFullYear()).toBe(2025);
+    expect(ref?.date.getMonth()).toBe(2);
+    expect(ref?.date.getDate()).toBe(1);
+  });
+
+  it('parses weekly notes with the Monday of the ISO week', () => {
+    const ref = parseCalendarFilename('2025-W09.txt');
+    expect(ref).toMatchObject({ kind: 'weekly', year: 2025, week: 9 });
+    expect(ref?.date.getDay()).toBe(1);
+    expect(ref?.date.getMonth()).toBe(1);
+    expect(ref?.date.getDate()).toBe(24);
+  });
+
+  it('parses monthly, quarterly and yearly notes with the first day of the period', () => {
+    const month = parseCalendarFilename('2026-10.txt');
+    expect(month).toMatchObject({ kind: 'monthly', year: 2026, month: 10 });
+    expect(month?.date.getMonth()).toBe(9);
+    expect(month?.date.getDate()).toBe(1);
+    const quarter = parseCalendarFilename('2026-Q4.txt');
+    expect(quarter).toMatchObject({ kind: 'quarterly', year: 2026, quarter: 4 });
+    expect(quarter?.date.getMonth()).toBe(9);
+    const year = parseCalendarFilename('2026.txt');
+    expect(year).toMatchObject({ kind: 'yearly', year: 2026 });
+    expect(year?.date.getMonth()).toBe(0);
+  });
+
+  it('rejects other names and impossible dates', () => {
+    expect(parseCalendarFilename('Meeting.txt')).toBeNull();
+    expect(parseCalendarFilename('20250231.txt')).toBeNull();
+    expect(parseCalendarFilename('2025-W54.txt')).toBeNull();
+    expect(parseCalendarFilename('20250301.md')).toBeNull();
+    expect(parseCalendarFilename('2026-13.txt')).toBeNull();
+    expect(parseCalendarFilename('2026-Q5.txt')).toBeNull();
+    expect(parseCalendarFilename('202.txt')).toBeNull();
+  });
+});
+
+describe('calendar note titles', () => {
+  it('labels daily and weekly notes by date', () => {
+    expect(formatDailyNoteTitle(new Date(2025, 2, 1))).toBe('Sat, Mar 1, 2025');
+    expect(formatWeeklyNoteTitle(2025, 9)).toBe('Week 9 · Feb 24–Mar 2, 2025');
+    expect(formatWeeklyNoteTitle(2025, 10)).toBe('Week 10 · Mar 3–9, 2025');
+    expect(calendarNoteTitle(parseCalendarFilename('20250301.txt')!)).toBe('Sat, Mar 1, 2025');
+  });
+
+  it('labels monthly, quarterly and yearly notes', () => {
+    expect(formatMonthlyNoteTitle(2026, 10)).toBe('October 2026');
+    expect(formatQuarterlyNoteTitle(2026, 1)).toBe('Q1 2026 · Jan–Mar');
+    expect(calendarNoteTitle(parseCalendarFilename('2026-Q4.txt')!)).toBe('Q4 2026 · Oct–Dec');
+    expect(calendarNoteTitle(parseCalendarFilename('2026.txt')!)).toBe('2026');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Calendar note filenames and labels: daily `Calendar/YYYYMMDD.txt`, weekly
+ * `Calendar/YYYY-Www.txt` (ISO weeks, as NotePlan), monthly `YYYY-MM.txt`, quarterly
+ * `YYYY-Qn.txt` and yearly `YYYY.txt`. Used by the note index to label calendar hits by
+ * date and by navigation for the toolbar title.
+ */
+
+import { mondayOfISOWeekNumber } from './task-schedule';
+
+export type CalendarNoteRef =
+  | { kind: 'daily'; date: Date }
+  | { kind: 'weekly'; year: number; week: number; date: Date }
+  /** `month` is 1–12. */
+  | { kind: 'monthly'; year: number; month: number; date: Date }
+  | { kind: 'quarterly'; year: number; quarter: number; date: Date }
+  | { kind: 'yearly'; year: number; date: Date };
+
+export type CalendarNoteKind = CalendarNoteRef['kind'];
+
+const DAILY_FILENAME_RE = /^(\d{4})(\d{2})(\d{2})\.txt$/;
+const WEEKLY_FILENAME_RE = /^(\d{4})-W(\d{2})\.txt$/;
+const MONTHLY_FILENAME_RE = /^(\d{4})-(\d{2})\.txt$/;
+const QUARTERLY_FILENAME_RE = /^(\d{4})-Q([1-4])\.txt$/;
+const YEARLY_FILENAME_RE = /^(\d{4})\.txt$/;
+
+/**
+ * Parse a calendar note filename. Weekly notes get the Monday of their ISO week as `date`;
+ * monthly, quarterly and yearly notes get the first day of their period.
+ * Returns null for anything else (including impossible dates such as `20250231.txt`).
+ */
+export function parseCalendarFilename(filename: string): CalendarNoteRef | null {
+  const daily = filename.match(DAILY_FILENAME_RE);
+  if (daily) {
+    const y = Number(daily[1]);
+    const m = Number(daily[2]) - 1;
+    const d = Number(daily[3]);
+    const date = new Date(y, m, d);
+    if (date.getFullYear() !== y || date.getMonth() !== m || date.getDate() !== d) return null;
+    return { kind: 'daily', date };
+  }
+  const weekly = filename.match(WEEKLY_FILENAME_RE);
+  if (weekly) {
+    const year = Number(weekly[1]);
+    const week = Number(weekly[2]);
+    if (week < 1 || week > 53) return null;
+    return { kind: 'weekly', year, week, date: mondayOfISOWeekNumber(year, week) };
+  }
+  const monthly = filename.match(MONTHLY_FILENAME_RE);
+  if (monthly) {
+    const year = Number(monthly[1]);
+    const month = Number(monthly[2]);
+    if (month < 1 || month > 12) return null;
+    return { kind: 'monthly', year, month, date: new Date(year, month - 1, 1) };
+  }
+  const quarterly = filename.match(QUARTERLY_FILENAME_RE);
+  if (quarterly) {
+    const year = Number(quarterly[1]);
+    const quarter = Number(quarterly[2]);
+    return { kind: 'quarterly', year, quarter, date: new Date(year, (quarter - 1) * 3, 1) };
+  }
+  const yearly = filename.match(YEARLY_FILENAME_RE);
+  if (yearly) {
+    const year = Number(yearly[1]);
+    return { kind: 'yearly', year, date: new Date(year, 0, 1) };
+  }
+  return null;
+}
+
+/** Toolbar / list label for a daily note, e.g. `Sun, Oct 19, 2025`. */
+export function formatDailyNoteTitle(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/** Label for a weekly note, e.g. `Week 42 · Oct 13–19, 2025`. */
+export function formatWeeklyNoteTitle(year: number, week: number): string {
+  const mon = mondayOfISOWeekNumber(year, week);
+  const sun = new Date(mon);
+  sun.setDate(mon.getDate() + 6);
+  const monStr = mon.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const sunStr = mon.getMonth() === sun.getMonth()
+    ? String(sun.getDate())
+    : sun.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `Week ${week} · ${monStr}–${sunStr}, ${year}`;
+}
+
+/** Label for a monthly note, e.g. `October 2025`; `month` is 1–12. */
+export function formatMonthlyNoteTitle(year: number, month: number): string {
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+/** Label for a quarterly note, e.g. `Q4 2025 · Oct–Dec`. */
+export function formatQuarterlyNoteTitle(year: number, quarter: number): string {
+  const first = new Date(year, (quarter - 1) * 3, 1);
+  const last = new Date(year, (quarter - 1) * 3 + 2, 1);
+  const month = (d: Date) => d.toLocaleDateString('en-US', { month: 'short' });
+  return `Q${quarter} ${year} · ${month(first)}–${month(last)}`;
+}
+
+export function formatYearlyNoteTitle(year: number): string {
+  return String(year);
+}
+
+/** Label for any calendar note ref. */
+export function calendarNoteTitle(ref: CalendarNoteRef): string {
+  switch (ref.kind) {
+    case 'daily': return formatDailyNoteTitle(ref.date);
+    case 'weekly': return formatWeeklyNoteTitle(ref.year, ref.week);
+    case 'monthly': return formatMonthlyNoteTitle(ref.year, ref.month);
+    case 'quarterly': return formatQuarterlyNoteTitle(ref.year, ref.quarter);
+    case 'yearly': return formatYearlyNoteTitle(ref.year);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Modal preview of a multi-file text change (before/after per affected line) with
+ * confirm/cancel. Resolves true only when the user confirms.
+ */
+
+import type { LineChange } from './mention-rename';
+
+export interface ChangePreviewFile {
+  title: string;
+  changes: LineChange[];
+}
+
+export interface ChangePreviewOptions {
+  title: string;
+  /** One line under the title, e.g. "12 lines in 5 notes". */
+  summary: string;
+  files: ChangePreviewFile[];
+  confirmLabel: string;
+}
+
+export function showChangePreview(options: ChangePreviewOptions): Promise<boolean> {
+  return new Promise((resolve) => {
+    const backdrop = document.createElement('div');
+    backdrop.className = 'change-preview-backdrop';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'change-preview-dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+
+    const title = document.createElement('div');
+    title.className = 'change-preview-title';
+    title.textContent = options.title;
+
+    const summary = document.createElement('div');
+    summary.className = 'change-preview-summary';
+    summary.textContent = options.summary;
+
+    const list = document.createElement('div');
+    list.className = 'change-preview-list';
+    for (const file of options.files) {
+      const group = document.createElement('div');
+      group.className = 'change-preview-file';
+
+      const name = document.createElement('div');
+      name.className = 'change-preview-file-title';
+      name.textContent = file.title;
+      group.appendChild(name);
+
+      for (const change of file.changes) {
+        const before = document.createElement('div');
+        before.className = 'change-preview-line change-preview-line--before';
+        before.textContent = `− ${change.before.trim()}`;
+        const after = document.createElement('div');
+        after.className = 'change-preview-line change-preview-line--after';
+        after.textContent = `+ ${change.after.trim()}`;
+        group.appendChild(before);
+        group.appendChild(after);
+      }
+      list.appendChild(group);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'change-preview-actions';
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.type = 'button';
+    cancelBtn.className = 'change-preview-btn';
+    cancelBtn.textContent = 'Cancel';
+
+    const confirmBtn = document.createElement('button');
+    confirmBtn.type = 'button';
+    confirmBtn.className = 'change-preview-btn change-preview-btn--primary';
+    confirmBtn.textContent = options.confirmLabel;
+
+    actions.appendChild(cancelBtn);
+    actions.appendChild(confirmBtn);
+
+    dialog.appendChild(title);
+    dialog.appendChild(summary);
+    dialog.appendChild(list);
+    dialog.appendChild(actions);
+    backdrop.appendChild(dialog);
+    document.body.appendChild(backdrop);
+
+    const close = (result: boolean) => {
+      document.removeEventListener('keydown', onKey, true);
+      backdrop.remove();
+      resolve(result);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        close(false);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        e.stopPropagation();
+        close(true);
+      }
+    };
+
+    cancelBtn.addEventListener('click', () => close(false));
+    confirmBtn.addEventListener('click', () => close(true));
+    backdrop.addEventListener('mousedown', (e) => {
+      if (e.target === backdrop) close(false);
+    });
+    document.addEventListener('keydown', onKey, true);
+    confirmBtn.focus();
+  });
+}
@@ -30,7 +30,7 @@ export function wikiLinkCompletion(context: CompletionContext): CompletionResult
     results = noteIndex.searchNotes(query);
   } else {
     results = noteIndex.entries
-      .filter((e) => !e.isTrashed)
+      .filter((e) => !e.isTrashed && e.kind === 'project')
       .sort((a, b) => {
         if (a.isArchived && !b.isArchived) return 1;
         if (!a.isArchived && b.isArchived) return -1;
@@ -0,0 +1,132 @@
+/**
+ * Gutter drag handles: grab a line's handle to drag it, with its indented children, to another
+ * spot in the note. A line decoration marks where it will land; the move itself is
+ * `moveLineBlock` (editor-list-keymap.ts), shared with Alt-Shift-Up/Down.
+ */
+
+import { StateEffect, StateField, type EditorState } from '@codemirror/state';
+import { Decoration, EditorView, gutter, GutterMarker, type DecorationSet } from '@codemirror/view';
+import { lineBlockAt, moveLineBlock } from './editor-list-keymap';
+
+const LINE_DRAG_MIME = 'application/x-daymark-editor-lines';
+
+// Set on dragstart: dataTransfer contents are not readable during dragover
+let draggedLine: number | null = null;
+
+/** Line the dragged block will land before (`doc.lines + 1` = after the last line); null clears. */
+const setDropTarget = StateEffect.define<number | null>();
+
+const dropTargetField = StateField.define<number | null>({
+  create: () => null,
+  update(target, tr) {
+    for (const e of tr.effects) if (e.is(setDropTarget)) target = e.value;
+    return tr.docChanged ? null : target;
+  },
+  provide: (f) => EditorView.decorations.compute([f], (state) => dropIndicator(state, state.field(f))),
+});
+
+const dropBefore = Decoration.line({ class: 'cm-line-drop-before' });
+const dropAfter = Decoration.line({ class: 'cm-line-drop-after' });
+
+function dropIndicator(state: EditorState, target: number | null): DecorationSet {
+  if (target === null) return Decoration.none;
+  if (target > state.doc.lines) return Decoration.set(dropAfter.range(state.doc.line(state.doc.lines).from));
+  return Decoration.set(dropBefore.range(state.doc.line(target).from));
+}
+
+/**
+ * Target line for a drop at the pointer: before the hovered line, or after it in its lower half
+ * (after everything folded under it, since the visual block spans the fold).
+ */
+function dropTargetAt(view: EditorView, event: DragEvent): number | null {
+  if (draggedLine === null) return null;
+  const { doc } = view.state;
+  const pos = view.posAtCoords({ x: event.clientX, y: event.clientY }, false);
+  const block = view.lineBlockAt(pos);
+  const below = event.clientY - view.documentTop > block.top + block.height / 2;
+  const target = below ? doc.lineAt(block.to).number + 1 : doc.lineAt(block.from).number;
+  const { first, last } = lineBlockAt(view.state, draggedLine);
+  return target >= first && target <= last + 1 ? null : target;
+}
+
+function isLineDrag(event: DragEvent): boolean {
+  return !!event.dataTransfer?.types.includes(LINE_DRAG_MIME);
+}
+
+function clearDropTarget(view: EditorView) {
+  if (view.state.field(dropTargetField) !== null) view.dispatch({ effects: setDropTarget.of(null) });
+}
+
+class DragHandleMarker extends GutterMarker {
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = 'cm-drag-handle ri-draggable';
+    el.draggable = true;
+    el.title = 'Drag to move';
+    return el;
+  }
+}
+
+const dragHandle = new DragHandleMarker();
+
+const dragHandleGutter = gutter({
+  class: 'cm-drag-gutter',
+  lineMarker: (view, block) => (view.state.doc.lineAt(block.from).text.trim() === '' ? null : dragHandle),
+  initialSpacer: () => dragHandle,
+  domEventHandlers: {
+    dragstart: (view, block, event) => {
+      const e = event as DragEvent;
+      if (!e.dataTransfer) return false;
+      const line = view.state.doc.lineAt(block.from);
+      const { last } = lineBlockAt(view.state, line.number);
+      draggedLine = line.number;
+      e.dataTransfer.setData(LINE_DRAG_MIME, String(line.number));
+      e.dataTransfer.setData('text/plain', view.state.sliceDoc(line.from, view.state.doc.line(last).to));
+      e.dataTransfer.effectAllowed = 'move';
+      // True would preventDefault and cancel the drag
+      return false;
+    },
+    dragend: (view) => {
+      draggedLine = null;
+      clearDropTarget(view);
+      return false;
+    },
+  },
+});
+
+const lineDropHandler = EditorView.domEventHandlers({
+  dragover(event, view) {
+    if (!isLineDrag(event)) return false;
+    const target = dropTargetAt(view, event);
+    if (target !== null) {
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'move';
+    }
+    if (view.state.field(dropTargetField) !== target) view.dispatch({ effects: setDropTarget.of(target) });
+    return true;
+  },
+  dragleave(event, view) {
+    if (!view.contentDOM.contains(event.relatedTarget as Node | null)) clearDropTarget(view);
+    return false;
+  },
+  drop(event, view) {
+    if (!isLineDrag(event)) return false;
+    event.preventDefault();
+    const target = dropTargetAt(view, event);
+    const line = draggedLine;
+    draggedLine = null;
+    clearDropTarget(view);
+    if (target !== null && line !== null) moveLineBlock(view, line, target);
+    view.focus();
+    return true;
+  },
+});
+
+/** Drag-handle gutter (left of the fold chevrons), drop indicator and drop handling. */
+export function lineDragExtensions() {
+  return [
+    dropTargetField,
+    dragHandleGutter,
+    lineDropHandler,
+  ];
+}
@@ -0,0 +1,115 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, expect, it, afterEach } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { foldedRanges, foldEffect, indentUnit } from '@codemirror/language';
+import { livePreview, orderedListBodyInsertFilter, getRenumberOrderedListChanges } from './live-preview';
+import { foldEndLine, foldingExtensions, restoreFolds } from './editor-folding';
+
+let lastView: EditorView | null = null;
+
+afterEach(() => {
+  lastView?.destroy();
+  lastView = null;
+  document.body.replaceChildren();
+  localStorage.clear();
+});
+
+function endLine(doc: string, lineNo: number): number | null {
+  const lines = doc.split('\n');
+  return foldEndLine(lines.length, (n) => lines[n - 1], lineNo);
+}
+
+function mkView(doc: string, relPath: string) {
+  const state = EditorState.create({
+    doc,
+    extensions: [
+      orderedListBodyInsertFilter,
+      ...foldingExtensions(() => relPath),
+      indentUnit.of('\t'),
+      markdown({ base: markdownLanguage }),
+      livePreview,
+    ],
+  });
+  const parent = document.createElement('div');
+  document.body.appendChild(parent);
+  const view = new EditorView({ state, parent });
+  lastView = view;
+  return view;
+}
+
+function foldedLines(view: EditorView): number[] {
+  const lines: number[] = [];
+  foldedRanges(view.state).between(0, view.state.doc.length, (from, to) => {
+    lines.push(view.state.doc.lineAt(from).number, view.state.doc.lineAt(to).number);
+  });
+  return lines;
+}
+
+describe('foldEndLine', () => {
+  const doc = ['# Title', 'intro', '## A', '- a', '### A1', 'text', '', '## B', 'b', '', '# Next'].join('\n');
+
+  it('folds a heading to the next heading of the same or a higher level', () => {
+    expect(endLine(doc, 1)).toBe(9);
+    expect(endLine(doc, 3)).toBe(6);
+    expect(endLine(doc, 5)).toBe(6);
+    expect(endLine(doc, 11)).toBeNull();
+  });
+
+  it('ignores headings inside code fences', () => {
+    expect(endLine('## A\n```\n# not a heading\n```\nmore\n## B', 1)).toBe(5);
+  });
+
+  it('folds list items with indented children only', () => {
+    const list = '- parent\n\t- child\n\n\t\tdeeper\n- sibling\n1. one\n2. two';
+    expect(endLine(list, 1)).toBe(4);
+    expect(endLine(list, 2)).toBe(4);
+    expect(endLine(list, 5)).toBeNull();
+    expect(endLine(list, 6)).toBeNull();
+    expect(endLine('plain\n\tindented', 1)).toBeNull();
+  });
+});
+
+describe('fold state per note', () => {
+  const doc = '# Plan\n1. one\n\t1. detail\n2. two\n## Later\nlater';
+
+  it('saves folded lines and restores them for the same note', () => {
+    const view = mkView(doc, 'Notes/Plan.txt');
+    const line = view.state.doc.line(2);
+    view.dispatch({ effects: foldEffect.of({ from: line.to, to: view.state.doc.line(3).to }) });
+    expect(foldedLines(view)).toEqual([2, 3]);
+    view.destroy();
+
+    const reopened = mkView(doc, 'Notes/Plan.txt');
+    restoreFolds(reopened, 'Notes/Plan.txt');
+    expect(foldedLines(reopened)).toEqual([2, 3]);
+
+    const other = mkView(doc, 'Notes/Other.txt');
+    restoreFolds(other, 'Notes/Other.txt');
+    expect(foldedLines(other)).toEqual([]);
+  });
+
+  it('does not restore a fold whose line moved', () => {
+    const view = mkView(doc, 'Notes/Plan.txt');
+    view.dispatch({ effects: foldEffect.of({ from: view.state.doc.line(2).to, to: view.state.doc.line(3).to }) });
+    view.destroy();
+
+    const edited = mkView(`# Intro\n${doc}`, 'Notes/Plan.txt');
+    restoreFolds(edited, 'Notes/Plan.txt');
+    expect(foldedLines(edited)).toEqual([]);
+  });
+
+  it('keeps the doc unchanged, so ordered lists renumber across folded children', () => {
+    const view = mkView(doc, 'Notes/Plan.txt');
+    view.dispatch({ effects: foldEffect.of({ from: view.state.doc.line(2).to, to: view.state.doc.line(3).to }) });
+    expect(view.state.doc.toString()).toBe(doc);
+    view.dispatch({ changes: { from: view.state.doc.line(4).from, to: view.state.doc.line(4).from + 1, insert: '5' } });
+    const changes = getRenumberOrderedListChanges(view.state, 4);
+    view.dispatch({ changes });
+    expect(view.state.doc.line(4).text).toBe('2. two');
+    expect(foldedLines(view)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Folding: a left gutter with chevrons on ATX headings (folding up to the next heading of the
+ * same or a higher level) and on list items with indented children (folding those children).
+ * Fold ranges come from the raw text only, so they sit alongside `livePreview` decorations and
+ * never change the doc (ordered-list renumbering sees every line). Folded lines are remembered per
+ * note in localStorage, with their text, and re-applied by `restoreFolds` after the note loads.
+ */
+
+import { codeFolding, foldedRanges, foldEffect, syntaxTree, unfoldEffect } from '@codemirror/language';
+import { Transaction, type EditorState, type Extension } from '@codemirror/state';
+import { EditorView, gutter, GutterMarker, type BlockInfo } from '@codemirror/view';
+import { indentWidth } from './task-schedule';
+
+const HEADING_RE = /^(#{1,6})\s/;
+const LIST_ITEM_RE = /^\s*(?:[-+*]|\d+[.)])(?:\s|$)/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Last line (1-based) folded under line `lineNo`, or null when it has nothing to fold. Headings
+ * fold to the next heading of the same or a higher level (headings in code fences don't count),
+ * list items fold their deeper-indented lines; trailing blank lines stay visible.
+ */
+export function foldEndLine(lineCount: number, lineText: (n: number) => string, lineNo: number): number | null {
+  const text = lineText(lineNo);
+  const heading = text.match(HEADING_RE);
+  let last = lineNo;
+  if (heading) {
+    const level = heading[1].length;
+    let inFence = false;
+    for (let n = lineNo + 1; n <= lineCount; n++) {
+      const t = lineText(n);
+      if (FENCE_RE.test(t)) inFence = !inFence;
+      const h = inFence ? null : t.match(HEADING_RE);
+      if (h && h[1].length <= level) break;
+      if (t.trim() !== '') last = n;
+    }
+  } else if (LIST_ITEM_RE.test(text)) {
+    const parent = indentWidth(text);
+    for (let n = lineNo + 1; n <= lineCount; n++) {
+      const t = lineText(n);
+      if (t.trim() === '') continue;
+      if (indentWidth(t) <= parent) break;
+      last = n;
+    }
+  }
+  return last > lineNo ? last : null;
+}
+
+/** The fold range for the line starting at `lineFrom`; null in code blocks and lines without children. */
+function foldRangeAt(state: EditorState, lineFrom: number): { from: number; to: number } | null {
+  const line = state.doc.lineAt(lineFrom);
+  const node = syntaxTree(state).resolveInner(line.from, 1);
+  for (let n: typeof node | null = node; n; n = n.parent) {
+    if (n.name === 'FencedCode' || n.name === 'CodeBlock') return null;
+  }
+  const end = foldEndLine(state.doc.lines, (n) => state.doc.line(n).text, line.number);
+  return end === null ? null : { from: line.to, to: state.doc.line(end).to };
+}
+
+/** The fold currently starting on the line, if any. */
+function foldOnLine(state: EditorState, line: { from: number; to: number }): { from: number; to: number } | null {
+  let found: { from: number; to: number } | null = null;
+  foldedRanges(state).between(line.from, line.to, (from, to) => {
+    if (from >= line.from && from <= line.to) found = { from, to };
+  });
+  return found;
+}
+
+class FoldChevron extends GutterMarker {
+  constructor(readonly folded: boolean) {
+    super();
+  }
+
+  eq(other: FoldChevron) {
+    return other.folded === this.folded;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = `cm-fold-chevron ${this.folded ? 'ri-arrow-right-s-line' : 'ri-arrow-down-s-line'}`;
+    el.title = this.folded ? 'Unfold' : 'Fold';
+    return el;
+  }
+}
+
+const foldedChevron = new FoldChevron(true);
+const openChevron = new FoldChevron(false);
+
+function toggleFoldAt(view: EditorView, block: BlockInfo): boolean {
+  const line = view.state.doc.lineAt(block.from);
+  const folded = foldOnLine(view.state, line);
+  if (folded) {
+    view.dispatch({ effects: unfoldEffect.of(folded) });
+    return true;
+  }
+  const range = foldRangeAt(view.state, line.from);
+  if (!range) return false;
+  const head = view.state.selection.main.head;
+  view.dispatch({
+    effects: foldEffect.of(range),
+    // A cursor inside the fold would unfold it again
+    ...(head > range.from && head <= range.to ? { selection: { anchor: range.from } } : {}),
+  });
+  return true;
+}
+
+const foldChevronGutter = gutter({
+  class: 'cm-fold-gutter',
+  lineMarker(view, block) {
+    if (foldOnLine(view.state, block)) return foldedChevron;
+    return foldRangeAt(view.state, block.from) ? openChevron : null;
+  },
+  lineMarkerChange: (update) =>
+    update.docChanged || foldedRanges(update.startState) !== foldedRanges(update.state),
+  initialSpacer: () => openChevron,
+  domEventHandlers: {
+    mousedown: (view, block, event) => {
+      if (!toggleFoldAt(view, block)) return false;
+      event.preventDefault();
+      return true;
+    },
+  },
+});
+
+// --- Fold state per note ---
+
+const FOLDS_STORAGE_KEY = 'daymark-folds';
+// Oldest notes are forgotten beyond this
+const MAX_NOTES_WITH_FOLDS = 200;
+
+/** A folded line: its 1-based number and its text, so a fold is only restored onto the same line. */
+interface StoredFold {
+  line: number;
+  text: string;
+}
+
+function loadStoredFolds(): Record<string, StoredFold[]> {
+  try {
+    const data = JSON.parse(localStorage.getItem(FOLDS_STORAGE_KEY) ?? '{}');
+    return data && typeof data === 'object' ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The lines whose content is folded. */
+function foldedLines(state: EditorState): StoredFold[] {
+  const lines: StoredFold[] = [];
+  foldedRanges(state).between(0, state.doc.length, (from) => {
+    const line = state.doc.lineAt(from);
+    lines.push({ line: line.number, text: line.text });
+  });
+  return lines;
+}
+
+function persistFolds(relPath: string, lines: StoredFold[]): void {
+  const stored = loadStoredFolds();
+  if (JSON.stringify(stored[relPath] ?? []) === JSON.stringify(lines)) return;
+  // Re-inserted so the most recently folded notes come last
+  delete stored[relPath];
+  if (lines.length > 0) stored[relPath] = lines;
+  const paths = Object.keys(stored);
+  for (const path of paths.slice(0, Math.max(0, paths.length - MAX_NOTES_WITH_FOLDS))) delete stored[path];
+  try {
+    localStorage.setItem(FOLDS_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Ignore quota or storage errors
+  }
+}
+
+/**
+ * Gutter chevrons, fold placeholders and fold persistence. `notePath` is the note in the editor
+ * (null for none); its folded lines are saved whenever folds or their line numbers change.
+ */
+export function foldingExtensions(notePath: () => string | null): Extension[] {
+  return [
+    codeFolding({ placeholderText: '…' }),
+    foldChevronGutter,
+    EditorView.updateListener.of((update) => {
+      const before = foldedRanges(update.startState);
+      const after = foldedRanges(update.state);
+      if (before === after && (!update.docChanged || after.size === 0)) return;
+      // A remote whole-note replace (external change, synced rewrite) drops every fold; keep the
+      // saved lines so the caller can restore them
+      if (after.size === 0 && update.transactions.some((tr) => tr.annotation(Transaction.remote))) return;
+      const relPath = notePath();
+      if (relPath) persistFolds(relPath, foldedLines(update.state));
+    }),
+  ];
+}
+
+/**
+ * Fold the lines saved for `relPath` that still have something to fold. A saved line whose text
+ * no longer matches (lines were added or removed above it) stays unfolded.
+ */
+export function restoreFolds(view: EditorView, relPath: string): void {
+  const lines = loadStoredFolds()[relPath];
+  if (!Array.isArray(lines)) return;
+  const { doc } = view.state;
+  const effects = lines
+    .filter((f) => Number.isInteger(f?.line) && f.line >= 1 && f.line <= doc.lines)
+    .filter((f) => doc.line(f.line).text === f.text)
+    .map((f) => foldRangeAt(view.state, doc.line(f.line).from))
+    .filter((r): r is { from: number; to: number } => r !== null)
+    .map((r) => foldEffect.of(r));
+  if (effects.length > 0) view.dispatch({ effects });
+}
@@ -11,6 +11,9 @@ import {
   enterListAndBlockquoteAware,
   listLineKeymapExtensions,
   markdownTab,
+  moveLineBlock,
+  moveLineBlockDown,
+  moveLineBlockUp,
   shiftTabOnHeadingOrListLine,
   tabOnHeadingOrListLine,
 } from './editor-list-keymap';
@@ -308,3 +311,68 @@ describe('tabOnHeadingOrListLine / shiftTabOnHeadingOrListLine', () => {
     expect(view.state.doc.toString()).toBe('\taa\n\tbb\n\tcc');
   });
 });
+
+describe('moveLineBlock / moveLineBlockUp / moveLineBlockDown', () => {
+  const tasks = '- [ ] a\n\t- [ ] a1\n\t\tnote\n- [ ] b\n- [ ] c';
+
+  it('moves a task with its subtasks before another line, cursor staying on it', () => {
+    const view = mkView(tasks, 3);
+    expect(moveLineBlock(view, 1, 5)).toBe(true);
+    expect(view.state.doc.toString()).toBe('- [ ] b\n- [ ] a\n\t- [ ] a1\n\t\tnote\n- [ ] c');
+    expect(view.state.doc.lineAt(view.state.selection.main.head).text).toBe('- [ ] a');
+  });
+
+  it('moves a block to the end of the note', () => {
+    const view = mkView(tasks, 0);
+    expect(moveLineBlock(view, 4, 6)).toBe(true);
+    expect(view.state.doc.toString()).toBe('- [ ] a\n\t- [ ] a1\n\t\tnote\n- [ ] c\n- [ ] b');
+  });
+
+  it('refuses targets inside the block or next to it', () => {
+    const view = mkView(tasks, 0);
+    expect(moveLineBlock(view, 1, 2)).toBe(false);
+    expect(moveLineBlock(view, 1, 4)).toBe(false);
+    expect(moveLineBlock(view, 1, 1)).toBe(false);
+    expect(view.state.doc.toString()).toBe(tasks);
+  });
+
+  it('renumbers the ordered run after a move', () => {
+    const doc = '1. one\n2. two\n\t1. sub\n3. three';
+    const view = mkView(doc, doc.length);
+    expect(moveLineBlock(view, 2, 1)).toBe(true);
+    expect(view.state.doc.toString()).toBe('1. two\n\t1. sub\n2. one\n3. three');
+  });
+
+  it('renumbers both runs when an ordered item moves between lists', () => {
+    const doc = '1. a\n2. b\n3. c\n\ntext\n1. x';
+    const view = mkView(doc, 0);
+    expect(moveLineBlock(view, 1, 7)).toBe(true);
+    expect(view.state.doc.toString()).toBe('1. b\n2. c\n\ntext\n1. x\n2. a');
+  });
+
+  it('Alt-Shift-Down swaps with the next sibling block and its children', () => {
+    const view = mkView(tasks, 0);
+    expect(moveLineBlockDown(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe('- [ ] b\n- [ ] a\n\t- [ ] a1\n\t\tnote\n- [ ] c');
+  });
+
+  it('Alt-Shift-Up skips over the previous sibling\'s children', () => {
+    const view = mkView(tasks, tasks.indexOf('- [ ] b') + 3);
+    expect(moveLineBlockUp(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe('- [ ] b\n- [ ] a\n\t- [ ] a1\n\t\tnote\n- [ ] c');
+    expect(view.state.selection.main.head).toBe(3);
+  });
+
+  it('keeps subtasks under their parent', () => {
+    const doc = '- [ ] a\n\t- [ ] a1\n\t- [ ] a2\n- [ ] b';
+    const first = mkView(doc, doc.indexOf('a1'));
+    expect(moveLineBlockUp(first)).toBe(true);
+    expect(first.state.doc.toString()).toBe(doc);
+    const last = mkView(doc, doc.indexOf('a2'));
+    expect(moveLineBlockDown(last)).toBe(true);
+    expect(last.state.doc.toString()).toBe(doc);
+    const middle = mkView(doc, doc.indexOf('a1'));
+    expect(moveLineBlockDown(middle)).toBe(true);
+    expect(middle.state.doc.toString()).toBe('- [ ] a\n\t- [ ] a2\n\t- [ ] a1\n- [ ] b');
+  });
+});
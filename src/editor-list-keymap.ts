@@ -3,7 +3,7 @@
  * Wired from main.ts via listLineKeymapExtensions().
  */
 
-import { Prec } from '@codemirror/state';
+import { Prec, type EditorState, type TransactionSpec } from '@codemirror/state';
 import { EditorView, keymap } from '@codemirror/view';
 import { indentMore, indentLess } from '@codemirror/commands';
 import { indentUnit } from '@codemirror/language';
@@ -12,9 +12,11 @@ import {
   renumberOrderedListAfterIndent,
   getOrderedMarkerEnd,
   getNextOrderedMarkerInRun,
+  getRenumberOrderedListChanges,
   ORDERED_LIST_REGEX,
   taskBulletEnterContinuation,
 } from './live-preview';
+import { indentWidth } from './task-schedule';
 
 // When cursor is at end of a line that is only a start-of-line marker (task, bullet, ordered, checklist, or blockquote),
 // Backspace clears the whole line to empty.
@@ -186,13 +188,122 @@ export function markdownShiftTab(view: EditorView): boolean {
   return shiftTabOnHeadingOrListLine(view) || indentLess(view);
 }
 
-/** Enter / Backspace for lists and blockquotes (Prec.highest). Tab / Shift-Tab: add in `main` via Prec.highest. */
+/**
+ * Lines moved together from `lineNumber`: the line and its indented children (subtasks, bullets,
+ * nested ordered items). Blank lines count only when a deeper line follows them; a blank line
+ * moves alone.
+ */
+export function lineBlockAt(state: EditorState, lineNumber: number): { first: number; last: number } {
+  const text = state.doc.line(lineNumber).text;
+  let last = lineNumber;
+  if (text.trim() === '') return { first: lineNumber, last };
+  const parent = indentWidth(text);
+  for (let n = lineNumber + 1; n <= state.doc.lines; n++) {
+    const t = state.doc.line(n).text;
+    if (t.trim() === '') continue;
+    if (indentWidth(t) <= parent) break;
+    last = n;
+  }
+  return { first: lineNumber, last };
+}
+
+/**
+ * Move the block at `lineNumber` (see `lineBlockAt`) so it starts before line `beforeLine`
+ * (`doc.lines + 1` for the end), keeping the cursor on the moved text, then renumber the ordered
+ * runs it joined and left. One transaction, so one undo step. False when the target is inside
+ * the block or leaves it where it is. Shared by the gutter drag handle and Alt-Shift-Up/Down.
+ */
+export function moveLineBlock(view: EditorView, lineNumber: number, beforeLine: number): boolean {
+  const { state } = view;
+  const { doc } = state;
+  const { first, last } = lineBlockAt(state, lineNumber);
+  if (beforeLine < 1 || beforeLine > doc.lines + 1) return false;
+  if (beforeLine >= first && beforeLine <= last + 1) return false;
+
+  const lo = Math.min(first, beforeLine);
+  const hi = Math.max(last, beforeLine - 1);
+  const lines: string[] = [];
+  for (let n = lo; n <= hi; n++) lines.push(doc.line(n).text);
+  const block = lines.splice(first - lo, last - first + 1);
+  // Downward targets shift up by the block's own lines once it is taken out
+  const insertAt = beforeLine > last ? beforeLine - lo - block.length : beforeLine - lo;
+  lines.splice(insertAt, 0, ...block);
+
+  const from = doc.line(lo).from;
+  const newFirst = lo + insertAt;
+  const moved: TransactionSpec = {
+    changes: { from, to: doc.line(hi).to, insert: lines.join('\n') },
+    userEvent: 'move.line',
+  };
+  const head = state.selection.main.head;
+  const movedStart = from + lines.slice(0, insertAt).reduce((len, l) => len + l.length + 1, 0);
+  if (head >= doc.line(first).from && head <= doc.line(last).to) {
+    moved.selection = { anchor: movedStart + head - doc.line(first).from };
+  } else if (head >= from && head <= doc.line(hi).to) {
+    // Mapping through the rewritten range would drop it at an edge
+    moved.selection = { anchor: movedStart };
+  }
+
+  // Renumber around where the block landed, then where it was (number edits keep line numbers)
+  const specs: TransactionSpec[] = [moved];
+  let next = state.update(moved).state;
+  const newLast = newFirst + block.length - 1;
+  const oldSpot = beforeLine > last ? first : last + 1;
+  for (const ln of [newFirst - 1, newFirst, newLast + 1, oldSpot - 1, oldSpot]) {
+    if (ln < 1 || ln > next.doc.lines) continue;
+    const current = next.doc;
+    const changes = getRenumberOrderedListChanges(next, ln).filter(
+      (c) => current.sliceString(c.from, c.to) !== c.insert,
+    );
+    if (changes.length === 0) continue;
+    specs.push({ changes, sequential: true });
+    next = next.update({ changes }).state;
+  }
+  view.dispatch(state.update(...specs));
+  return true;
+}
+
+/** Alt-Shift-Up: swap the cursor line's block with the sibling block above it (not past its parent). */
+export function moveLineBlockUp(view: EditorView): boolean {
+  const { state } = view;
+  const { first } = lineBlockAt(state, state.doc.lineAt(state.selection.main.head).number);
+  if (first === 1) return true;
+  const indent = indentWidth(state.doc.line(first).text);
+  let target = first - 1;
+  if (state.doc.line(target).text.trim() !== '') {
+    // Start of the previous sibling: nearest line above at this indent or shallower
+    while (target > 1) {
+      const t = state.doc.line(target).text;
+      if (t.trim() !== '' && indentWidth(t) <= indent) break;
+      target--;
+    }
+    if (indentWidth(state.doc.line(target).text) < indent) return true;
+  }
+  moveLineBlock(view, first, target);
+  return true;
+}
+
+/** Alt-Shift-Down: swap the cursor line's block with the sibling block below it. */
+export function moveLineBlockDown(view: EditorView): boolean {
+  const { state } = view;
+  const { first, last } = lineBlockAt(state, state.doc.lineAt(state.selection.main.head).number);
+  if (last === state.doc.lines) return true;
+  const nextText = state.doc.line(last + 1).text;
+  if (nextText.trim() !== '' && indentWidth(nextText) < indentWidth(state.doc.line(first).text)) return true;
+  moveLineBlock(view, first, lineBlockAt(state, last + 1).last + 1);
+  return true;
+}
+
+/** Enter / Backspace for lists and blockquotes, Alt-Shift-Up/Down block moves (Prec.highest). Tab / Shift-Tab: add in `main` via Prec.highest. */
 export function listLineKeymapExtensions() {
   return [
     Prec.highest(
       keymap.of([
         { key: 'Enter', run: enterListAndBlockquoteAware },
         { key: 'Backspace', run: backspaceMarkerLineAware },
+        // Ahead of the default keymap's copy-line bindings on the same keys
+        { key: 'Alt-Shift-ArrowUp', run: moveLineBlockUp },
+        { key: 'Alt-Shift-ArrowDown', run: moveLineBlockDown },
       ]),
     ),
   ];
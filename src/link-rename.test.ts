@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { linkNameChanged, noteLinkName, renameWikiLinkInText } from './link-rename';
+
+describe('link-rename', () => {
+  it('names notes by filename', () => {
+    expect(noteLinkName('Notes/Projects/Q4 Plan.txt')).toBe('Q4 Plan');
+    expect(linkNameChanged('Notes/a/Plan.txt', 'Notes/b/Plan.txt')).toBe(false);
+    expect(linkNameChanged('Notes/Plan.txt', 'Notes/plan.txt')).toBe(false);
+    expect(linkNameChanged('Notes/Plan.txt', 'Notes/@Archive/Plan 2.txt')).toBe(true);
+  });
+
+  it('rewrites only exact links to the old name, any casing', () => {
+    const text = 'See [[Q4 Plan]] and [[q4 plan]].\n[[Q4 Plan v2]] stays\n- [ ] ask about [[Q4 Plan]]';
+    const out = renameWikiLinkInText(text, 'Q4 Plan', 'Roadmap (2026)');
+    expect(out.text).toBe('See [[Roadmap (2026)]] and [[Roadmap (2026)]].\n[[Q4 Plan v2]] stays\n- [ ] ask about [[Roadmap (2026)]]');
+    expect(out.changes.map((c) => c.lineNum)).toEqual([1, 3]);
+  });
+
+  it('treats regex characters in names literally and returns the same text when nothing matched', () => {
+    expect(renameWikiLinkInText('[[a.b]] [[axb]]', 'a.b', 'c').text).toBe('[[c]] [[axb]]');
+    const text = 'no links';
+    expect(renameWikiLinkInText(text, 'x', 'y')).toEqual({ text, changes: [] });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Wiki-link rewriting for note renames. Links resolve by filename first (note-index.ts), so
+ * renaming `Old Name.txt` rewrites every `[[Old Name]]` (any casing) to the new filename.
+ * Links by H1 title and links to other notes are left alone.
+ */
+
+import type { LineChange, TextRewrite } from './mention-rename';
+
+/** Filename without folder and `.txt`: the name wiki-links use. */
+export function noteLinkName(relPath: string): string {
+  return relPath.slice(relPath.lastIndexOf('/') + 1).replace(/\.txt$/i, '');
+}
+
+/** True when moving `from` → `to` changes the name links resolve by (casing aside). */
+export function linkNameChanged(from: string, to: string): boolean {
+  return noteLinkName(from).toLowerCase() !== noteLinkName(to).toLowerCase();
+}
+
+/** Replace every `[[from]]` with `[[to]]`. Returns the original string and no changes when nothing matched. */
+export function renameWikiLinkInText(text: string, from: string, to: string): TextRewrite {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const re = new RegExp(`\\[\\[${escaped}\\]\\]`, 'gi');
+  const lines = text.split('\n');
+  const changes: LineChange[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const before = lines[i];
+    const after = before.replace(re, () => `[[${to}]]`);
+    if (after !== before) {
+      lines[i] = after;
+      changes.push({ lineNum: i + 1, before, after });
+    }
+  }
+  return changes.length > 0 ? { text: lines.join('\n'), changes } : { text, changes };
+}
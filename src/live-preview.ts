@@ -9,7 +9,8 @@
  *
  * Currently handles: headings, blockquotes, bold, italic, wiki-links,
  * inline code, strikethrough, task checkboxes (`- [ ]`), checklist items
- * (`+ [ ]`, square icons), external links, and NotePlan-style YAML topmatter
+ * (`+ [ ]`, square icons), external links, schedule tokens and back-refs
+ * (`>2026-10-20`, `<2026-10-19`) as date chips, and NotePlan-style YAML topmatter
  * (`---` … `---`) collapsed when the selection does not touch that region.
  *
  * Styling is hard-coded for now. The decoration styles live in
@@ -34,6 +35,8 @@ import {
   Transaction,
 } from '@codemirror/state';
 import { indentUnit, syntaxTree } from '@codemirror/language';
+import { findRepeatToken } from './task-repeat';
+import { findScheduleTokens, formatScheduleChipLabel, isScheduleTargetPast } from './task-schedule';
 
 // --- Widgets for replacing syntax tokens ---
 
@@ -178,11 +181,16 @@ class MarkerWidget extends WidgetType {
           if (from < 0 || to > doc.length) return;
           if (from === to) {
             // Shortcut task "- " or "+ ": no [ ] in doc; insert "[x] " to mark done.
-            view.dispatch({ changes: { from, to, insert: '[x] ' } });
+            view.dispatch({ changes: { from, to, insert: '[x] ' }, userEvent: TASK_COMPLETE_USER_EVENT });
           } else {
             const box = doc.sliceString(from, to);
             const next = box === '[ ]' ? '[x]' : box === '[x]' ? '[ ]' : null;
-            if (next) view.dispatch({ changes: { from, to, insert: next } });
+            if (next) {
+              view.dispatch({
+                changes: { from, to, insert: next },
+                userEvent: next === '[x]' ? TASK_COMPLETE_USER_EVENT : undefined,
+              });
+            }
           }
         });
       }
@@ -231,6 +239,30 @@ class LinkArrowWidget extends WidgetType {
   }
 }
 
+/** Compact chip for `>date` / `<date`; main.ts opens `data-schedule-token`'s calendar note on click. */
+class DateChipWidget extends WidgetType {
+  constructor(
+    readonly raw: string,
+    readonly label: string,
+    readonly variant: 'schedule' | 'backref' | 'overdue',
+  ) {
+    super();
+  }
+
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = `cm-live-preview-date-chip cm-live-preview-date-chip--${this.variant}`;
+    span.textContent = this.variant === 'backref' ? `← ${this.label}` : this.label;
+    span.title = this.raw;
+    span.dataset.scheduleToken = this.raw.slice(1);
+    return span;
+  }
+
+  eq(other: DateChipWidget) {
+    return other.raw === this.raw && other.label === this.label && other.variant === this.variant;
+  }
+}
+
 const syntaxFade = Decoration.mark({ class: 'cm-live-preview-syntax-fade' });
 /** Single mark: nested syntax-fade + number-zone broke inline-block/margin; combined matches the widget slot. */
 const orderedNumberEditMark = Decoration.mark({
@@ -276,6 +308,9 @@ interface ListLineInfo {
 export type ListLineKind = 'task' | 'checklist' | 'bullet' | 'ordered';
 export type TaskState = 'open' | 'done' | 'cancelled' | 'scheduled';
 
+/** `userEvent` of transactions that mark a task done from its icon or the context menu (repeating tasks listen for it). */
+export const TASK_COMPLETE_USER_EVENT = 'input.complete';
+
 export interface ResolvedListLine {
   kind: ListLineKind;
   taskState?: TaskState;
@@ -704,6 +739,12 @@ export function isChecklistListLineText(text: string): boolean {
   return resolveListLineFromRegex({ from: 0, text }, m).kind === 'checklist';
 }
 
+/** Task/bullet resolution for a line outside the editor; offsets are relative to the line start. */
+export function resolveListLineText(text: string): ResolvedListLine | null {
+  const m = text.match(TASK_BULLET_REGEX);
+  return m ? resolveListLineFromRegex({ from: 0, text }, m) : null;
+}
+
 function resolveOrderedListFromRegex(line: { from: number; text: string }, orderedMatch: RegExpMatchArray): ResolvedListLine {
   const leadLen = orderedMatch[1].length;
   const markerFrom = line.from + leadLen;
@@ -1012,6 +1053,7 @@ function buildDecorations(
     (from > 0 && cursorPos === from - 1) ||
     cursorPos === to + 1;
 
+  const now = new Date();
   const tree = syntaxTree(state);
   const useTreeForBlocks =
     !forceRegexAfterDocChange && tree.length >= doc.length;
@@ -1354,8 +1396,35 @@ function buildDecorations(
       }
     }
 
+    // Repeat token (`@repeat(1w)`, `*every friday*`) as a chip; not also a mention
+    const repeat = findRepeatToken(text);
+    if (repeat) {
+      decorations.push(Decoration.mark({
+        class: 'cm-live-preview-repeat',
+        attributes: { title: 'Repeating task' },
+      }).range(line.from + repeat.from, line.from + repeat.to));
+    }
+
+    // Schedule tokens and back-refs as date chips; raw text at the cursor. Red when an open task is past due.
+    const scheduleTokens = findScheduleTokens(text);
+    if (scheduleTokens.length > 0) {
+      const openTask = resolveListLineText(text)?.taskState === 'open';
+      for (const t of scheduleTokens) {
+        const start = line.from + t.from;
+        const end = line.from + t.to;
+        if (cursorInOrAdjacent(start, end)) continue;
+        const overdue = t.direction === '>' && openTask && isScheduleTargetPast(t.target, now);
+        const variant = t.direction === '<' ? 'backref' : overdue ? 'overdue' : 'schedule';
+        const label = formatScheduleChipLabel(t.target, now);
+        decorations.push(Decoration.replace({
+          widget: new DateChipWidget(text.slice(t.from, t.to), label, variant),
+        }).range(start, end));
+      }
+    }
+
     // @mentions: @FirstnameLastname — only at word boundary (start of line or after whitespace)
     for (const match of text.matchAll(/(?:^|(?<=\s))(@[A-Za-z_][A-Za-z0-9_/\-&]*)/g)) {
+      if (repeat && match.index === repeat.from) continue;
       const start = line.from + match.index!;
       const end = start + match[1].length;
       decorations.push(Decoration.mark({
@@ -1525,7 +1594,7 @@ export const taskMarkerClickHandler = EditorView.domEventHandlers({
     if (!next) return false;
     event.preventDefault();
     event.stopPropagation();
-    view.dispatch({ changes: { from, to, insert: next } });
+    view.dispatch({ changes: { from, to, insert: next }, userEvent: next === '[x]' ? TASK_COMPLETE_USER_EVENT : undefined });
     return true;
   },
 });
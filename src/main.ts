@@ -1,5 +1,5 @@
-import { EditorState, Prec } from '@codemirror/state';
-import { EditorView, keymap, highlightActiveLine, KeyBinding } from '@codemirror/view';
+import { EditorState, Prec, Transaction } from '@codemirror/state';
+import { EditorView, keymap, highlightActiveLine, KeyBinding, ViewUpdate } from '@codemirror/view';
 import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
 import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
 import { languages } from '@codemirror/language-data';
@@ -20,16 +20,56 @@ import {
   topmatterHideField,
   taskMarkerClickHandler,
   orderedListBodyInsertFilter,
+  resolveListLineText,
+  TASK_COMPLETE_USER_EVENT,
 } from './live-preview';
 import { taskContextMenuHandler } from './task-context-menu';
-import { registerTaskScheduleExecutor } from './task-schedule-bridge';
+import { wireNoteActionsMenu } from './note-actions-menu';
+import { moveDoneTasksToBottom, scheduleOpenTasks } from './note-task-actions';
+import { scheduleShortcutExtensions } from './schedule-shortcuts';
+import { findRepeatToken, nextRepeatLine, nextRepeatTarget, type RepeatRule } from './task-repeat';
+import { registerTaskScheduleExecutor, registerTaskUnscheduleExecutor } from './task-schedule-bridge';
 import {
-  buildDestinationLine,
+  buildScheduledChildLines,
   buildScheduledSourceLine,
+  buildSyncedDestinationLine,
+  buildUnscheduledChildLines,
+  buildUnscheduledSourceLine,
   cleanedTaskBody,
+  completedTaskLine,
+  findScheduledCopyLines,
   formatISODate,
+  formatMonthlyCalendarFilename,
+  formatQuarterlyCalendarFilename,
   formatWeeklyCalendarFilename,
+  formatYearlyCalendarFilename,
+  getSchedulingISOWeek,
+  indentedChildCount,
+  mondayOfISOWeekNumber,
+  parseScheduleToken,
+  removeLineAt,
+  scheduleTagForTarget,
+  stripTrailingScheduleTokens,
+  trailingScheduleTarget,
+  type ScheduledCopyMatch,
+  type ScheduleTarget,
 } from './task-schedule';
+import {
+  refreshSidebarCalendar,
+  refreshSidebarCalendarOnDayChange,
+  renderSidebarCalendar,
+  setSidebarCalendarSelection,
+} from './sidebar-calendar';
+import {
+  collectBlockIds,
+  findBlockId,
+  generateBlockId,
+  rewriteSyncedLinesInText,
+  stripBlockId,
+  syncedCopyLine,
+  withBlockId,
+} from './synced-lines';
+import { isPaneLineDrag, makePaneLineDraggable, readDraggedPaneLine, type DraggedPaneLine } from './pane-drag';
 import {
   listLineKeymapExtensions,
   markdownShiftTab,
@@ -44,11 +84,49 @@ import {
   refreshMentionsSidebar,
   renderHashtagsSidebar,
   refreshHashtagsSidebar,
+  renderSavedSearchesSidebar,
+  refreshSavedSearchesSidebar,
+  addSavedSearch,
+  getSavedSearch,
+  setActiveSavedSearch,
   getFolderListingNodes,
   TreeNode,
 } from './sidebar';
-import { noteIndex, SearchResult } from './note-index';
-import type { SidebarFsMutation } from './sidebar-fs';
+import { noteIndex, SearchResult, type NoteEntry } from './note-index';
+import { lineDragExtensions } from './editor-drag-handle';
+import { foldingExtensions, restoreFolds } from './editor-folding';
+import { isInsideTrash, purgeExpiredTrash, renameNoteToTitle, type SidebarFsMutation } from './sidebar-fs';
+import { linkNameChanged, noteLinkName, renameWikiLinkInText } from './link-rename';
+import {
+  formatDailyNoteTitle,
+  formatMonthlyNoteTitle,
+  formatQuarterlyNoteTitle,
+  formatWeeklyNoteTitle,
+  formatYearlyNoteTitle,
+  parseCalendarFilename,
+} from './calendar-notes';
+import { showChangePreview } from './change-preview-dialog';
+import {
+  ARCHIVED_MENTION_PREFIX,
+  archiveMentionInText,
+  deleteMentionInText,
+  isArchivedMention,
+  isValidMention,
+  normalizeMentionInput,
+  renameMentionInText,
+  type LineChange,
+  type TextRewrite,
+} from './mention-rename';
+import {
+  highlightSegments,
+  isEmptyQuery,
+  parseSearchQuery,
+  queryHighlightRegExp,
+  queryIncludesDone,
+} from './text-search';
+import { hideTodayPanel, renderTodayPanel, wireTodayPanel, type TodayPanelHandlers } from './today-panel';
+import { hideWeekPanel, renderWeekPanel, wireWeekPanel, type WeekPanelHandlers } from './week-panel';
+import { hideReferencePane, referencePaneOutdated, renderReferencePane, type ReferencePaneHandlers } from './reference-pane';
 import { wikiLinkCompletion, mentionCompletion, hashtagCompletion } from './completions';
 import 'remixicon/fonts/remixicon.css';
 
@@ -56,12 +134,16 @@ const NOTEPLAN_BASE = 'Library/Containers/co.noteplan.NotePlan-setapp/Data/Libra
 
 // --- Note location types ---
 
-type NoteType = 'daily' | 'weekly' | 'project';
+type NoteType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'project';
+
+/** Calendar note types that cover whole months (`YYYY-MM`, `YYYY-Qn`, `YYYY`). */
+type PeriodNoteType = 'monthly' | 'quarterly' | 'yearly';
 
 interface NoteLocation {
   type: NoteType;
   relPath: string;
   displayName: string;
+  /** Daily notes: the day. Monthly, quarterly and yearly notes: the first day of the period. */
   date?: Date;
   weekInfo?: { year: number; week: number };
 }
@@ -69,6 +151,8 @@ interface NoteLocation {
 type NavEntry =
   | { kind: 'note'; note: NoteLocation }
   | { kind: 'search'; term: string }
+  | { kind: 'text-search'; query: string }
+  | { kind: 'saved-search'; name: string }
   | { kind: 'folder'; relPath: string; displayTitle: string };
 
 // --- Date helpers ---
@@ -80,15 +164,6 @@ function formatDateForFile(date: Date): string {
   return `${yyyy}${mm}${dd}.txt`;
 }
 
-function formatDateForDisplay(date: Date): string {
-  return date.toLocaleDateString('en-US', {
-    weekday: 'short',
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
-}
-
 function addDays(date: Date, days: number): Date {
   const result = new Date(date);
   result.setDate(result.getDate() + days);
@@ -110,27 +185,6 @@ function getISOWeek(date: Date): { year: number; week: number } {
   return { year: d.getUTCFullYear(), week };
 }
 
-// Monday of ISO week
-function mondayOfWeek(year: number, week: number): Date {
-  const jan4 = new Date(year, 0, 4);
-  const dayOfWeek = jan4.getDay() || 7;
-  const mondayOfW1 = new Date(jan4);
-  mondayOfW1.setDate(jan4.getDate() - dayOfWeek + 1);
-  const target = new Date(mondayOfW1);
-  target.setDate(mondayOfW1.getDate() + (week - 1) * 7);
-  return target;
-}
-
-function weeklyDisplayNameForWeek(year: number, week: number): string {
-  const mon = mondayOfWeek(year, week);
-  const sun = addDays(mon, 6);
-  const monStr = mon.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  const sunStr = mon.getMonth() === sun.getMonth()
-    ? String(sun.getDate())
-    : sun.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  return `Week ${week} · ${monStr}–${sunStr}, ${year}`;
-}
-
 // --- State ---
 
 let currentNote: NoteLocation | null = null;
@@ -184,7 +238,7 @@ function updateToolbar(note: NoteLocation) {
     }
   }
 
-  // Show date nav for daily and weekly notes
+  // Show date nav for calendar notes
   if (dateNav) {
     dateNav.classList.toggle('hidden', note.type === 'project');
   }
@@ -198,12 +252,18 @@ function updateToolbar(note: NoteLocation) {
       && note.weekInfo.year === currentWeek.year
       && note.weekInfo.week === currentWeek.week);
   }
+  if (todayBtn && isPeriodNoteType(note.type)) {
+    todayBtn.disabled = periodNoteContaining(note.type, new Date()).relPath === note.relPath;
+  }
 
   updateHistoryButtons();
 
   document.getElementById('link-daily')?.classList.toggle('active',
     note.type === 'daily' && !!note.date && isSameDay(note.date, new Date()));
   document.getElementById('link-weekly')?.classList.toggle('active', note.type === 'weekly');
+  for (const type of PERIOD_NOTE_TYPES) {
+    document.getElementById(`link-${type}`)?.classList.toggle('active', note.type === type);
+  }
 }
 
 function updateHistoryButtons() {
@@ -225,9 +285,18 @@ function scheduleSave() {
       await writeTextFile(currentNote.relPath, content, { baseDir: BaseDirectory.Home });
       lastSavedContent = content;
       isDirty = false;
+      const previousTitle = noteIndex.getEntry(currentNote.relPath)?.title;
       noteIndex.updateEntry(currentNote.relPath, content);
+      offerTitleRename(currentNote, previousTitle);
       refreshMentionsSidebar();
       refreshHashtagsSidebar();
+      refreshSavedSearchesSidebar();
+      refreshSidebarCalendar();
+      if (todayPanelDate) updateTodayPanel();
+      if (currentNote.type === 'daily') updateWeekPanel();
+      if (referencePaneOutdated(currentNote.relPath, content)) updateReferencePane();
+      // A synced copy added or deleted here hides or brings back its backlink line
+      if (backlinksSyncedKey !== null && backlinksSyncedKey !== syncedIdsKey(content)) updateBacklinksPanel(currentNote.relPath);
       setStatus('Saved');
       setTimeout(() => setStatus(''), 1500);
     } catch (err) {
@@ -238,6 +307,7 @@ function scheduleSave() {
 }
 
 async function flushSave(): Promise<void> {
+  await propagateSyncedLines();
   if (saveTimeout) {
     clearTimeout(saveTimeout);
     saveTimeout = null;
@@ -263,11 +333,328 @@ async function loadFile(relPath: string): Promise<string> {
   }
 }
 
+// --- Synced lines (^blockid) ---
+
+/** blockId -> latest text of an edited synced line and the note it was edited in, awaiting propagation. */
+const pendingSyncedLines = new Map<string, { relPath: string; text: string }>();
+let syncedLineTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Record synced lines touched by an editor update (typing, task icon toggle, context menu).
+ * External reloads are tagged `Transaction.remote` and never propagate.
+ */
+function collectEditedSyncedLines(update: ViewUpdate) {
+  if (!currentNote) return;
+  if (update.transactions.some((tr) => tr.annotation(Transaction.remote))) return;
+  const relPath = currentNote.relPath;
+  const doc = update.state.doc;
+  update.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+    const first = doc.lineAt(fromB).number;
+    const last = doc.lineAt(toB).number;
+    for (let n = first; n <= last; n++) {
+      const text = doc.line(n).text;
+      const id = findBlockId(text);
+      if (id) pendingSyncedLines.set(id, { relPath, text });
+    }
+  });
+  if (pendingSyncedLines.size === 0) return;
+  if (syncedLineTimeout) clearTimeout(syncedLineTimeout);
+  syncedLineTimeout = setTimeout(() => {
+    void propagateSyncedLines();
+  }, 500);
+}
+
+/**
+ * Completing a repeating task from its icon or the context menu creates the next occurrence: in
+ * the next daily/weekly note when the task lives in one, else right below it with a schedule token.
+ */
+function repeatCompletedTasks(update: ViewUpdate) {
+  if (!currentNote || !update.transactions.some((tr) => tr.isUserEvent(TASK_COMPLETE_USER_EVENT))) return;
+  const note = currentNote;
+  const doc = update.state.doc;
+  const lineNumbers = new Set<number>();
+  update.changes.iterChangedRanges((_fromA, _toA, fromB) => {
+    lineNumbers.add(doc.lineAt(fromB).number);
+  });
+  for (const n of lineNumbers) {
+    const text = doc.line(n).text;
+    const repeat = findRepeatToken(text);
+    if (!repeat || !/^\s*[-+] \[x\]/.test(text)) continue;
+    // No dispatching from inside an update listener
+    setTimeout(() => void createNextOccurrence(note, n, text, repeat.rule), 0);
+  }
+}
+
+async function createNextOccurrence(note: NoteLocation, lineNumber: number, lineText: string, rule: RepeatRule) {
+  const token = trailingScheduleTarget(lineText);
+  let due: ScheduleTarget | null = token && token.kind !== 'today' ? token : null;
+  if (!due && note.type === 'daily' && note.date) due = { kind: 'date', date: note.date };
+  if (!due && note.type === 'weekly' && note.weekInfo) due = { kind: 'week', ...note.weekInfo };
+  const target = nextRepeatTarget(rule, due, new Date());
+  const nextLine = nextRepeatLine(lineText);
+
+  if (note.type === 'daily' || note.type === 'weekly') {
+    await appendScheduledCopy(target, nextLine.trimStart());
+    return;
+  }
+  if (currentNote?.relPath !== note.relPath || !view || lineNumber > view.state.doc.lines) return;
+  const line = view.state.doc.line(lineNumber);
+  if (line.text !== lineText) return;
+  view.dispatch({ changes: { from: line.to, insert: `\n${nextLine} ${scheduleTagForTarget(target)}` } });
+  setStatus(`Next occurrence on ${scheduleTargetNote(target).label}`);
+}
+
+/** Rewrite every other file that contains a pending block ID to match the edited copy. */
+async function propagateSyncedLines(): Promise<void> {
+  if (syncedLineTimeout) {
+    clearTimeout(syncedLineTimeout);
+    syncedLineTimeout = null;
+  }
+  if (pendingSyncedLines.size === 0) return;
+  const pending = [...pendingSyncedLines.entries()];
+  pendingSyncedLines.clear();
+
+  const touched = new Set<string>();
+  for (const [blockId, edit] of pending) {
+    for (const relPath of noteIndex.getBlockIdPaths(blockId)) {
+      if (relPath === edit.relPath) continue;
+      if (relPath === currentNote?.relPath && view) {
+        // Open note: rewrite in the editor (tagged remote so it does not bounce back) and let autosave persist it.
+        const content = view.state.doc.toString();
+        const next = rewriteSyncedLinesInText(content, blockId, edit.text);
+        if (next !== content) {
+          view.dispatch({
+            changes: { from: 0, to: view.state.doc.length, insert: next },
+            selection: { anchor: Math.min(view.state.selection.main.head, next.length) },
+            annotations: Transaction.remote.of(true),
+          });
+          restoreFolds(view, relPath);
+          touched.add(relPath);
+        }
+        continue;
+      }
+      try {
+        const content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+        const next = rewriteSyncedLinesInText(content, blockId, edit.text);
+        if (next === content) continue;
+        await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
+        noteIndex.updateEntry(relPath, next);
+        touched.add(relPath);
+      } catch (err) {
+        console.error('[daymark] Synced line update failed:', relPath, err);
+      }
+    }
+  }
+  if (touched.size > 0) {
+    setStatus(`Synced ${touched.size} other note${touched.size === 1 ? '' : 's'}`);
+    setTimeout(() => setStatus(''), 1500);
+  }
+}
+
+// --- Global @mention rename / delete / archive ---
+
+/** One rewritten file, kept so the whole batch can be undone. */
+interface BatchFileChange {
+  relPath: string;
+  before: string;
+  after: string;
+}
+
+const BATCH_UNDO_TIMEOUT_MS = 60_000;
+let batchUndoTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/** Replace the open note's text in the editor without echoing it as a synced-line edit. */
+function replaceEditorContent(next: string) {
+  if (!view) return;
+  lastSavedContent = next;
+  view.dispatch({
+    changes: { from: 0, to: view.state.doc.length, insert: next },
+    selection: { anchor: Math.min(view.state.selection.main.head, next.length) },
+    annotations: Transaction.remote.of(true),
+  });
+  if (currentNote) restoreFolds(view, currentNote.relPath);
+}
+
+function afterBatchRewrite() {
+  refreshMentionsSidebar();
+  refreshSavedSearchesSidebar();
+  refreshSidebarCalendar();
+  if (currentNote) updateBacklinksPanel(currentNote.relPath);
+  updateReferencePane();
+}
+
+/**
+ * Preview `rewrite` applied to every note mentioning `mention`, then write the confirmed
+ * changes and offer an undo for the batch. `verb` labels the dialog and status ("Rename").
+ */
+async function rewriteMentionEverywhere(
+  mention: string,
+  verb: string,
+  title: string,
+  rewrite: (text: string) => TextRewrite,
+) {
+  const mentionLower = mention.toLowerCase();
+  const candidates = noteIndex.entries.filter((e) => e.mentions.some((m) => m.toLowerCase() === mentionLower));
+  await rewriteNotesWithPreview(candidates, verb, title, rewrite, `No occurrences of ${mention} found`);
+}
+
+/**
+ * Preview `rewrite` applied to `candidates`, then write the confirmed changes and offer an
+ * undo for the batch. `emptyStatus` is shown when no candidate changes.
+ */
+async function rewriteNotesWithPreview(
+  candidates: readonly NoteEntry[],
+  verb: string,
+  title: string,
+  rewrite: (text: string) => TextRewrite,
+  emptyStatus: string,
+) {
+  // Disk must match the editor before files are read and rewritten
+  await flushSave();
+
+  const rewrites: { entry: NoteEntry; text: string; changes: LineChange[] }[] = [];
+  for (const entry of candidates) {
+    try {
+      const content = await readTextFile(entry.relPath, { baseDir: BaseDirectory.Home });
+      const out = rewrite(content);
+      if (out.changes.length > 0) rewrites.push({ entry, ...out });
+    } catch (err) {
+      console.error('[daymark] Batch rewrite read failed:', entry.relPath, err);
+    }
+  }
+  if (rewrites.length === 0) {
+    setStatus(emptyStatus);
+    return;
+  }
+
+  const lineCount = rewrites.reduce((n, r) => n + r.changes.length, 0);
+  const fileLabel = `${rewrites.length} note${rewrites.length === 1 ? '' : 's'}`;
+  const confirmed = await showChangePreview({
+    title,
+    summary: `${lineCount} line${lineCount === 1 ? '' : 's'} in ${fileLabel}`,
+    files: rewrites.map((r) => ({ title: r.entry.title, changes: r.changes })),
+    confirmLabel: `${verb} in ${fileLabel}`,
+  });
+  if (!confirmed) return;
+
+  // Anything typed while the dialog was open is saved before files are rewritten
+  await flushSave();
+
+  const batch: BatchFileChange[] = [];
+  let changedLines = 0;
+  for (const r of rewrites) {
+    try {
+      // Re-apply to the current content so edits since the preview are kept
+      const content = await readTextFile(r.entry.relPath, { baseDir: BaseDirectory.Home });
+      const out = rewrite(content);
+      if (out.text === content) continue;
+      await writeTextFile(r.entry.relPath, out.text, { baseDir: BaseDirectory.Home });
+      noteIndex.updateEntry(r.entry.relPath, out.text);
+      batch.push({ relPath: r.entry.relPath, before: content, after: out.text });
+      changedLines += out.changes.length;
+      if (r.entry.relPath === currentNote?.relPath) replaceEditorContent(out.text);
+    } catch (err) {
+      console.error('[daymark] Batch rewrite write failed:', r.entry.relPath, err);
+    }
+  }
+
+  afterBatchRewrite();
+  const summary = `${title}: ${changedLines} line${changedLines === 1 ? '' : 's'} in ${batch.length} note${batch.length === 1 ? '' : 's'}`;
+  setStatus(summary);
+  if (batch.length > 0) offerBatchUndo(summary, batch);
+}
+
+/** Show the toolbar Undo button for `batch` until it is used, replaced or times out. */
+function offerBatchUndo(summary: string, batch: BatchFileChange[]) {
+  const btn = document.getElementById('status-undo') as HTMLButtonElement | null;
+  if (!btn) return;
+  if (batchUndoTimeout) clearTimeout(batchUndoTimeout);
+  btn.title = `Undo "${summary}"`;
+  btn.disabled = false;
+  btn.classList.remove('hidden');
+  const hide = () => {
+    if (batchUndoTimeout) clearTimeout(batchUndoTimeout);
+    batchUndoTimeout = null;
+    btn.onclick = null;
+    btn.classList.add('hidden');
+  };
+  btn.onclick = () => {
+    btn.disabled = true;
+    void undoBatch(batch).finally(hide);
+  };
+  batchUndoTimeout = setTimeout(hide, BATCH_UNDO_TIMEOUT_MS);
+}
+
+/**
+ * Restore every file of `batch` to its content before the batch. A file edited since is
+ * left alone (restoring it would lose that edit) and reported as skipped.
+ */
+async function undoBatch(batch: BatchFileChange[]) {
+  await flushSave();
+  let restored = 0;
+  let skipped = 0;
+  for (const change of batch) {
+    try {
+      const content = await readTextFile(change.relPath, { baseDir: BaseDirectory.Home });
+      if (content === change.before) continue;
+      if (content !== change.after) {
+        skipped++;
+        continue;
+      }
+      await writeTextFile(change.relPath, change.before, { baseDir: BaseDirectory.Home });
+      noteIndex.updateEntry(change.relPath, change.before);
+      restored++;
+      if (change.relPath === currentNote?.relPath) replaceEditorContent(change.before);
+    } catch (err) {
+      skipped++;
+      console.error('[daymark] Batch undo failed:', change.relPath, err);
+    }
+  }
+  afterBatchRewrite();
+  setStatus(
+    `Restored ${restored} note${restored === 1 ? '' : 's'}` +
+      (skipped > 0 ? ` (${skipped} changed since, left as is)` : ''),
+  );
+}
+
+async function renameMentionEverywhere(from: string) {
+  const raw = window.prompt(`Rename ${from} in all notes to:`, from);
+  if (raw === null) return;
+  const to = normalizeMentionInput(raw);
+  if (to === from) return;
+  if (!isValidMention(to)) {
+    window.alert(`"${to}" is not a valid mention.`);
+    return;
+  }
+  await rewriteMentionEverywhere(from, 'Rename', `Rename ${from} → ${to}`, (text) =>
+    renameMentionInText(text, from, to),
+  );
+}
+
+async function deleteMentionEverywhere(mention: string) {
+  await rewriteMentionEverywhere(mention, 'Delete', `Delete ${mention} (keep ${mention.slice(1)})`, (text) =>
+    deleteMentionInText(text, mention),
+  );
+}
+
+async function archiveMentionEverywhere(mention: string) {
+  if (isArchivedMention(mention)) return;
+  await rewriteMentionEverywhere(mention, 'Archive', `Archive ${mention} → ${ARCHIVED_MENTION_PREFIX}${mention.slice(1)}`, (text) =>
+    archiveMentionInText(text, mention),
+  );
+}
+
 // --- Back/forward as CM6 keybindings ---
 
 function navigateToEntry(entry: NavEntry) {
   if (entry.kind === 'search') {
     showTagSearch(entry.term, false);
+  } else if (entry.kind === 'text-search') {
+    showTextSearch(entry.query, false);
+  } else if (entry.kind === 'saved-search') {
+    // Re-reads the saved query, so edits made since are picked up; a removed search opens empty
+    const saved = getSavedSearch(entry.name);
+    showTextSearch(saved?.query ?? '', false, saved?.name);
   } else if (entry.kind === 'folder') {
     showFolderIndex(entry.relPath, entry.displayTitle, false);
   } else {
@@ -341,6 +728,18 @@ const linkClickHandler = EditorView.domEventHandlers({
       return false;
     }
 
+    // Date chips (`>2026-10-20`, `<2026-10-19`, `>2026-W43`)
+    const dateChip = target.closest('.cm-live-preview-date-chip') as HTMLElement | null;
+    if (dateChip) {
+      const scheduleTarget = parseScheduleToken(dateChip.dataset.scheduleToken ?? '');
+      if (scheduleTarget) {
+        event.preventDefault();
+        navigateTo(noteLocationForScheduleTarget(scheduleTarget));
+        return true;
+      }
+      return false;
+    }
+
     // @mentions
     const isMention = target.closest('.cm-live-preview-mention') as HTMLElement | null;
     if (isMention) {
@@ -422,6 +821,73 @@ async function fetchPageTitle(url: string): Promise<string> {
   }
 }
 
+/**
+ * Dropping a pane line (`>today`, weekly tasks and reference panes) on the editor inserts a synced copy
+ * above or below the line under the pointer. The source gets the `^blockid` in the background.
+ */
+const paneLineDropHandler = EditorView.domEventHandlers({
+  dragover(event: DragEvent) {
+    if (!isPaneLineDrag(event)) return false;
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+    return true;
+  },
+  drop(event: DragEvent, editorView: EditorView) {
+    if (!isPaneLineDrag(event)) return false;
+    event.preventDefault();
+    const source = readDraggedPaneLine(event);
+    if (!source || !currentNote || source.relPath === currentNote.relPath) return true;
+
+    const blockId = findBlockId(source.text) ?? generateBlockId((id) => noteIndex.hasBlockId(id));
+    const copy = syncedCopyLine(source.text, blockId);
+
+    const doc = editorView.state.doc;
+    const pos = editorView.posAtCoords({ x: event.clientX, y: event.clientY }, false);
+    const line = doc.lineAt(pos);
+    const block = editorView.lineBlockAt(line.from);
+    const below = event.clientY - editorView.documentTop > block.top + block.height / 2;
+    const change = line.text.trim() === ''
+      ? { from: line.from, to: line.to, insert: copy }
+      : below
+        ? { from: line.to, insert: `\n${copy}` }
+        : { from: line.from, insert: `${copy}\n` };
+    const anchor = change.from + (change.insert.startsWith('\n') ? 1 : 0) + copy.length;
+
+    // Remote: the copy matches its source, so there is nothing to propagate
+    editorView.dispatch({
+      changes: change,
+      selection: { anchor },
+      annotations: Transaction.remote.of(true),
+    });
+    editorView.focus();
+
+    if (!findBlockId(source.text)) void addBlockIdToSource(source, blockId);
+    setStatus('Inserted synced line');
+    return true;
+  },
+});
+
+/** Write `^blockId` onto a dragged pane line in its source file (line number is a hint). */
+async function addBlockIdToSource(source: DraggedPaneLine, blockId: string) {
+  try {
+    const content = await readTextFile(source.relPath, { baseDir: BaseDirectory.Home });
+    const lines = content.split('\n');
+    let idx = source.lineNum - 1;
+    if (lines[idx] !== source.text) idx = lines.indexOf(source.text);
+    if (idx < 0) {
+      setStatus('Source line changed — synced copy is not linked');
+      return;
+    }
+    lines[idx] = withBlockId(lines[idx], blockId);
+    const next = lines.join('\n');
+    await writeTextFile(source.relPath, next, { baseDir: BaseDirectory.Home });
+    noteIndex.updateEntry(source.relPath, next);
+  } catch (err) {
+    console.error('[daymark] Synced line source write failed:', source.relPath, err);
+    setStatus(`Could not link synced line: ${err}`);
+  }
+}
+
 const pasteUrlHandler = EditorView.domEventHandlers({
   paste(event: ClipboardEvent, editorView: EditorView) {
     const text = event.clipboardData?.getData('text/plain')?.trim();
@@ -496,6 +962,7 @@ function updateToolbarFolderIndex(displayTitle: string) {
   }
   document.getElementById('link-daily')?.classList.remove('active');
   document.getElementById('link-weekly')?.classList.remove('active');
+  for (const type of PERIOD_NOTE_TYPES) document.getElementById(`link-${type}`)?.classList.remove('active');
   updateHistoryButtons();
 }
 
@@ -513,6 +980,10 @@ async function showFolderIndex(folderRelPath: string, displayTitle: string, addT
   container.classList.remove('hidden');
   editorEl.style.display = 'none';
   if (backlinksPanel) backlinksPanel.classList.add('hidden');
+  hideTodayPanel();
+  hideWeekPanel();
+  hideReferencePane();
+  setActiveSavedSearch(null);
 
   if (addToHistory) {
     navHistory.splice(navIndex + 1);
@@ -572,6 +1043,7 @@ async function showFolderIndex(folderRelPath: string, displayTitle: string, addT
       noteTitle.className = 'search-note-title';
       noteTitle.innerHTML = `<i class="ri-file-text-line"></i> ${escapeHtml(node.title)}`;
       noteTitle.addEventListener('click', () => {
+        swallowEditorPointerEvents();
         navigateTo(projectNote(node));
       });
       group.appendChild(noteTitle);
@@ -580,6 +1052,7 @@ async function showFolderIndex(folderRelPath: string, displayTitle: string, addT
       lineEl.className = 'search-line folder-index-preview';
       lineEl.textContent = previewText || '—';
       lineEl.addEventListener('click', () => {
+        swallowEditorPointerEvents();
         navigateTo(projectNote(node));
       });
       group.appendChild(lineEl);
@@ -603,6 +1076,10 @@ function showTagSearch(term: string, addToHistory = true) {
   container.classList.remove('hidden');
   editorEl.style.display = 'none';
   if (backlinksPanel) backlinksPanel.classList.add('hidden');
+  hideTodayPanel();
+  hideWeekPanel();
+  hideReferencePane();
+  setActiveSavedSearch(null);
   folderIndexActive = false;
   searchActive = true;
 
@@ -647,55 +1124,291 @@ function showTagSearch(term: string, addToHistory = true) {
   container.appendChild(resultsArea);
 
   searchFnForTerm(term).then((results) => {
-    // Separate active vs archived, deduplicate archived copies
-    const activeResults = results.filter((r) => !r.entry.isArchived);
-    const activeFilenames = new Set(activeResults.map((r) => r.entry.filename));
-    const archivedResults = results
-      .filter((r) => r.entry.isArchived)
-      .filter((r) => !activeFilenames.has(r.entry.filename));
+    renderFilteredResults(filterBar, resultsArea, countEl, results, () => showTagSearch(term, false));
+  });
+}
 
-    const hasDone = results.some((r) => r.lines.some((l) => l.isDone));
-    const hasArchived = archivedResults.length > 0;
+interface ResultViewOptions {
+  /** Matches to mark in each result line. */
+  highlight?: RegExp;
+  /** Buttons appended after the done/archived toggles. */
+  extraToggles?: HTMLElement[];
+  /** The query itself asks for done/cancelled lines, so the hide-done filter does not apply. */
+  includesDone?: boolean;
+}
 
-    // Build filter bar
-    filterBar.textContent = '';
-    if (hasDone) {
-      const doneToggle = document.createElement('button');
-      doneToggle.className = `search-filter-toggle${hideDoneInSearch ? '' : ' active'}`;
-      doneToggle.textContent = hideDoneInSearch ? 'Show done' : 'Hide done';
-      doneToggle.addEventListener('click', () => {
-        hideDoneInSearch = !hideDoneInSearch;
-        showTagSearch(term, false);
-      });
-      filterBar.appendChild(doneToggle);
-    }
-    if (hasArchived) {
-      const archiveToggle = document.createElement('button');
-      archiveToggle.className = `search-filter-toggle${showArchivedInSearch ? ' active' : ''}`;
-      archiveToggle.textContent = showArchivedInSearch ? 'Hide archived' : 'Show archived';
-      archiveToggle.addEventListener('click', () => {
-        showArchivedInSearch = !showArchivedInSearch;
-        showTagSearch(term, false);
-      });
-      filterBar.appendChild(archiveToggle);
+/**
+ * Done/archived filter bar plus grouped results, shared by tag and full-text search.
+ * `rerender` re-runs the owning view after a toggle.
+ */
+function renderFilteredResults(
+  filterBar: HTMLElement,
+  resultsArea: HTMLElement,
+  countEl: HTMLElement,
+  results: SearchResult[],
+  rerender: () => void,
+  { highlight, extraToggles = [], includesDone = false }: ResultViewOptions = {},
+) {
+  // Separate active vs archived, deduplicate archived copies
+  const activeResults = results.filter((r) => !r.entry.isArchived);
+  const activeFilenames = new Set(activeResults.map((r) => r.entry.filename));
+  const archivedResults = results
+    .filter((r) => r.entry.isArchived)
+    .filter((r) => !activeFilenames.has(r.entry.filename));
+
+  const hasDone = !includesDone && results.some((r) => r.lines.some((l) => l.isDone));
+  const hasArchived = archivedResults.length > 0;
+
+  // Build filter bar
+  filterBar.textContent = '';
+  filterBar.style.display = '';
+  if (hasDone) {
+    const doneToggle = document.createElement('button');
+    doneToggle.className = `search-filter-toggle${hideDoneInSearch ? '' : ' active'}`;
+    doneToggle.textContent = hideDoneInSearch ? 'Show done' : 'Hide done';
+    doneToggle.addEventListener('click', () => {
+      hideDoneInSearch = !hideDoneInSearch;
+      rerender();
+    });
+    filterBar.appendChild(doneToggle);
+  }
+  if (hasArchived) {
+    const archiveToggle = document.createElement('button');
+    archiveToggle.className = `search-filter-toggle${showArchivedInSearch ? ' active' : ''}`;
+    archiveToggle.textContent = showArchivedInSearch ? 'Hide archived' : 'Show archived';
+    archiveToggle.addEventListener('click', () => {
+      showArchivedInSearch = !showArchivedInSearch;
+      rerender();
+    });
+    filterBar.appendChild(archiveToggle);
+  }
+  for (const toggle of extraToggles) filterBar.appendChild(toggle);
+  if (!hasDone && !hasArchived && extraToggles.length === 0) {
+    filterBar.style.display = 'none';
+  }
+
+  const visibleResults = showArchivedInSearch
+    ? [...activeResults, ...archivedResults]
+    : activeResults;
+
+  const hideDone = hideDoneInSearch && !includesDone;
+  renderSearchResults(resultsArea, visibleResults, countEl, archivedResults.length, hideDone, highlight);
+}
+
+// --- Full-text search (⌘F / ⇧⌘F) ---
+
+let textSearchIncludeTrash = false;
+let textSearchTimeout: ReturnType<typeof setTimeout> | null = null;
+// Bumped per query so a slow search never overwrites the results of a newer one
+let textSearchToken = 0;
+
+/** Query box for full-text search; null unless the full-text view is showing. */
+function textSearchInput(): HTMLInputElement | null {
+  if (!searchActive) return null;
+  return document.querySelector<HTMLInputElement>('#search-results .search-query-input');
+}
+
+/** Open the full-text search view, or focus its query box when it is already showing. */
+function openTextSearch() {
+  const existing = textSearchInput();
+  if (existing) {
+    existing.focus();
+    existing.select();
+    return;
+  }
+  // Seed the query with a single-line editor selection
+  let query = '';
+  if (view && !searchActive && !folderIndexActive) {
+    const { from, to } = view.state.selection.main;
+    const selected = view.state.sliceDoc(from, to);
+    if (selected && !selected.includes('\n')) query = selected.trim();
+  }
+  showTextSearch(query);
+}
+
+/** Full-text search view; `savedName` when opened from (or saved as) a sidebar saved search. */
+async function showTextSearch(query: string, addToHistory = true, savedName?: string) {
+  // Results and their line numbers come from disk, so the open note's edits must be there first
+  await flushSave();
+
+  const container = document.getElementById('search-results')!;
+  const editorEl = document.getElementById('editor')!;
+  const backlinksPanel = document.getElementById('backlinks-panel');
+
+  container.textContent = '';
+  container.classList.remove('hidden');
+  editorEl.style.display = 'none';
+  if (backlinksPanel) backlinksPanel.classList.add('hidden');
+  hideTodayPanel();
+  hideWeekPanel();
+  hideReferencePane();
+  folderIndexActive = false;
+  searchActive = true;
+
+  if (addToHistory) {
+    navHistory.splice(navIndex + 1);
+    navHistory.push(savedName ? { kind: 'saved-search', name: savedName } : { kind: 'text-search', query });
+    navIndex = navHistory.length - 1;
+  }
+  updateHistoryButtons();
+  setActiveSavedSearch(savedName ?? null);
+
+  // Header
+  const header = document.createElement('div');
+  header.className = 'search-header';
+
+  const icon = document.createElement('i');
+  icon.className = 'ri-search-line search-query-icon';
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'search-query-input';
+  input.placeholder = 'Search all notes — is:open @name folder:Work after:-90d "phrase" -word';
+  input.title = 'Terms: word, "phrase", @mention, #tag, is:open|done|cancelled|scheduled|task|checklist, '
+    + 'has:schedule|link|mention|tag|sync, folder:Name, after:/before:YYYY-MM-DD|today|-90d; prefix - to exclude';
+  input.spellcheck = false;
+  input.value = query;
+
+  const countEl = document.createElement('span');
+  countEl.className = 'search-header-count';
+
+  const saveBtn = document.createElement('button');
+  saveBtn.className = 'search-header-close search-header-save';
+  saveBtn.title = 'Save search to sidebar';
+  saveBtn.innerHTML = '<i class="ri-bookmark-line"></i>';
+  saveBtn.addEventListener('click', () => {
+    const current = input.value.trim();
+    if (!current) return;
+    const name = window.prompt('Save search as:', savedName ?? current)?.trim();
+    if (!name) return;
+    addSavedSearch(name, current);
+    savedName = name;
+    navHistory[navIndex] = { kind: 'saved-search', name };
+    setActiveSavedSearch(name);
+  });
+
+  const closeBtn = document.createElement('button');
+  closeBtn.className = 'search-header-close';
+  closeBtn.title = 'Close search (Esc)';
+  closeBtn.innerHTML = '<i class="ri-close-line"></i>';
+  closeBtn.addEventListener('click', closeSearch);
+
+  header.appendChild(icon);
+  header.appendChild(input);
+  header.appendChild(countEl);
+  header.appendChild(saveBtn);
+  header.appendChild(closeBtn);
+  container.appendChild(header);
+
+  const filterBar = document.createElement('div');
+  filterBar.className = 'search-filter-bar';
+  container.appendChild(filterBar);
+
+  const resultsArea = document.createElement('div');
+  resultsArea.className = 'search-results-area';
+  container.appendChild(resultsArea);
+
+  const run = () => runTextSearch(input.value, filterBar, resultsArea, countEl, run);
+
+  input.addEventListener('input', () => {
+    // Typing refines the current history entry instead of pushing one per keystroke;
+    // editing a saved search turns it into an ad-hoc one (the saved query is unchanged)
+    const entry = navHistory[navIndex];
+    if (entry?.kind === 'text-search') {
+      entry.query = input.value;
+    } else if (entry?.kind === 'saved-search') {
+      navHistory[navIndex] = { kind: 'text-search', query: input.value };
+      savedName = undefined;
+      setActiveSavedSearch(null);
     }
-    if (!hasDone && !hasArchived) {
-      filterBar.style.display = 'none';
+    if (textSearchTimeout) clearTimeout(textSearchTimeout);
+    textSearchTimeout = setTimeout(run, 200);
+  });
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (textSearchTimeout) clearTimeout(textSearchTimeout);
+      run();
     }
+  });
 
-    const visibleResults = showArchivedInSearch
-      ? [...activeResults, ...archivedResults]
-      : activeResults;
+  run();
+  input.focus();
+  input.select();
+}
 
-    renderSearchResults(resultsArea, visibleResults, countEl, archivedResults.length);
+function runTextSearch(
+  query: string,
+  filterBar: HTMLElement,
+  resultsArea: HTMLElement,
+  countEl: HTMLElement,
+  rerender: () => void,
+) {
+  const token = ++textSearchToken;
+  const parsed = parseSearchQuery(query);
+
+  const trashToggle = document.createElement('button');
+  trashToggle.className = `search-filter-toggle${textSearchIncludeTrash ? ' active' : ''}`;
+  trashToggle.textContent = textSearchIncludeTrash ? 'Exclude trash' : 'Search trash';
+  trashToggle.title = 'Include notes in @Trash (to recover deleted text)';
+  trashToggle.addEventListener('click', () => {
+    textSearchIncludeTrash = !textSearchIncludeTrash;
+    rerender();
+  });
+
+  if (isEmptyQuery(parsed)) {
+    filterBar.textContent = '';
+    filterBar.style.display = '';
+    filterBar.appendChild(trashToggle);
+    resultsArea.textContent = '';
+    countEl.textContent = textSearchIncludeTrash ? 'Searching notes and trash' : '';
+    return;
+  }
+
+  countEl.textContent = 'Searching…';
+  const options: ResultViewOptions = {
+    highlight: queryHighlightRegExp(parsed) ?? undefined,
+    extraToggles: [trashToggle],
+    includesDone: queryIncludesDone(parsed),
+  };
+  noteIndex.searchQuery(parsed, { includeTrash: textSearchIncludeTrash }).then((results) => {
+    if (token !== textSearchToken || !searchActive) return;
+    renderFilteredResults(filterBar, resultsArea, countEl, results, rerender, options);
   });
 }
 
+/**
+ * Opening a result swaps the overlay for the editor mid-gesture; without this the rest of the
+ * gesture (second click of a double-click, a late mouseup) lands in the editor and moves the
+ * cursor away from the target line.
+ */
+function swallowEditorPointerEvents(ms = 500) {
+  const editorEl = document.getElementById('editor');
+  if (!editorEl) return;
+  const types = ['mousedown', 'mouseup', 'click', 'dblclick'];
+  const block = (e: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+  for (const t of types) editorEl.addEventListener(t, block, true);
+  setTimeout(() => {
+    for (const t of types) editorEl.removeEventListener(t, block, true);
+  }, ms);
+}
+
+function openSearchResult(entry: NoteEntry, lineNum?: number) {
+  swallowEditorPointerEvents();
+  closeSearch();
+  navigateTo(noteLocationForEntry(entry), true, lineNum);
+}
+
 function renderSearchResults(
   container: HTMLElement,
   results: SearchResult[],
   countEl: HTMLElement,
   hiddenArchivedCount: number,
+  hideDone: boolean,
+  highlight?: RegExp,
 ) {
   container.textContent = '';
 
@@ -708,7 +1421,7 @@ function renderSearchResults(
   }
 
   for (const result of results) {
-    const visibleForNote = hideDoneInSearch
+    const visibleForNote = hideDone
       ? result.lines.filter((l) => !l.isDone)
       : result.lines;
 
@@ -721,29 +1434,36 @@ function renderSearchResults(
 
     const noteTitle = document.createElement('div');
     noteTitle.className = 'search-note-title';
-    const archiveLabel = result.entry.isArchived ? ' <span class="search-archived-badge">archived</span>' : '';
-    noteTitle.innerHTML = `<i class="ri-file-text-line"></i> ${escapeHtml(result.entry.title)}${archiveLabel}`;
-    noteTitle.addEventListener('click', () => {
-      closeSearch();
-      navigateTo({
-        type: 'project',
-        relPath: result.entry.relPath,
-        displayName: result.entry.title,
-      });
+    const archiveLabel = result.entry.isTrashed
+      ? ' <span class="search-archived-badge">trashed</span>'
+      : result.entry.isArchived ? ' <span class="search-archived-badge">archived</span>' : '';
+    noteTitle.innerHTML = `<i class="${entryIconClass(result.entry)}"></i> ${escapeHtml(result.entry.title)}${archiveLabel}`;
+    noteTitle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      openSearchResult(result.entry);
     });
     group.appendChild(noteTitle);
 
     for (const line of visibleForNote) {
       const lineEl = document.createElement('div');
       lineEl.className = `search-line${line.isDone ? ' done' : ''}${line.isChecklist ? ' search-line-checklist' : ''}`;
-      lineEl.textContent = line.text.trim();
-      lineEl.addEventListener('click', () => {
-        closeSearch();
-        navigateTo({
-          type: 'project',
-          relPath: result.entry.relPath,
-          displayName: result.entry.title,
-        }, true, line.lineNum);
+      if (highlight) {
+        for (const seg of highlightSegments(line.text.trim(), highlight)) {
+          if (seg.match) {
+            const mark = document.createElement('mark');
+            mark.className = 'search-match';
+            mark.textContent = seg.text;
+            lineEl.appendChild(mark);
+          } else {
+            lineEl.appendChild(document.createTextNode(seg.text));
+          }
+        }
+      } else {
+        lineEl.textContent = line.text.trim();
+      }
+      lineEl.addEventListener('click', (e) => {
+        e.stopPropagation();
+        openSearchResult(result.entry, line.lineNum);
       });
       group.appendChild(lineEl);
     }
@@ -755,7 +1475,7 @@ function renderSearchResults(
   const parts: string[] = [];
   parts.push(`${visibleLines} result${visibleLines === 1 ? '' : 's'} in ${noteCount} note${noteCount === 1 ? '' : 's'}`);
   const doneHidden = totalLines - visibleLines;
-  if (doneHidden > 0 && hideDoneInSearch) parts.push(`${doneHidden} done hidden`);
+  if (doneHidden > 0 && hideDone) parts.push(`${doneHidden} done hidden`);
   if (hiddenArchivedCount > 0 && !showArchivedInSearch) parts.push(`${hiddenArchivedCount} archived note${hiddenArchivedCount === 1 ? '' : 's'} hidden`);
   countEl.textContent = parts.join(' · ');
 
@@ -763,7 +1483,7 @@ function renderSearchResults(
     const empty = document.createElement('div');
     empty.className = 'search-empty';
     const reasons: string[] = [];
-    if (totalLines > 0 && hideDoneInSearch) reasons.push('done tasks are hidden');
+    if (totalLines > 0 && hideDone) reasons.push('done tasks are hidden');
     if (hiddenArchivedCount > 0 && !showArchivedInSearch) reasons.push('archived notes are hidden');
     if (reasons.length > 0) {
       empty.textContent = `No visible results — ${reasons.join(' and ')}.`;
@@ -798,6 +1518,22 @@ function wireFormattingToolbar() {
   });
 }
 
+/** Replace the editor's content with `nextLines` as one change (one undo step) over the part that differs. */
+function replaceEditorLines(v: EditorView, nextLines: readonly string[]) {
+  const current = v.state.doc.toString();
+  const next = nextLines.join('\n');
+  if (current === next) return;
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start
+    && end < next.length - start
+    && current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) end++;
+  v.dispatch({ changes: { from: start, to: current.length - end, insert: next.slice(start, next.length - end) } });
+}
+
 function closeSearch() {
   const container = document.getElementById('search-results')!;
   const editorEl = document.getElementById('editor')!;
@@ -806,9 +1542,13 @@ function closeSearch() {
   editorEl.style.display = '';
   searchActive = false;
   folderIndexActive = false;
+  setActiveSavedSearch(null);
   if (currentNote) {
     updateToolbar(currentNote);
   }
+  updateTodayPanel();
+  updateWeekPanel();
+  updateReferencePane();
   updateHistoryButtons();
   view?.focus();
 }
@@ -824,12 +1564,19 @@ const DISABLE_LIVE_PREVIEW = false;
 
 const editorExtensions = [
   orderedListBodyInsertFilter,
+  ...lineDragExtensions(),
+  ...foldingExtensions(() => currentNote?.relPath ?? null),
   highlightActiveLine(),
   indentOnInput(),
   indentUnit.of('\t'),
   bracketMatching(),
   history(),
   keymap.of([...navKeymap, ...defaultKeymap, ...historyKeymap]),
+  // Before the list keymap so Enter converts a typed >shortcut first
+  ...scheduleShortcutExtensions((err) => {
+    setStatus(`Schedule failed: ${err}`);
+    console.error('[daymark] Schedule shortcut failed:', err);
+  }),
   ...listLineKeymapExtensions(),
   markdown({ base: markdownLanguage, codeLanguages: languages }),
   syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
@@ -837,6 +1584,8 @@ const editorExtensions = [
     if (update.docChanged) {
       scheduleSave();
       setStatus('Editing…');
+      collectEditedSyncedLines(update);
+      repeatCompletedTasks(update);
     }
   }),
   EditorView.lineWrapping,
@@ -848,6 +1597,7 @@ const editorExtensions = [
   Prec.high(taskContextMenuHandler),
   linkClickHandler,
   pasteUrlHandler,
+  paneLineDropHandler,
   // Tab last and highest precedence so block indent / list Tab are not shadowed by other keymaps.
   Prec.highest(
     keymap.of([
@@ -879,8 +1629,11 @@ function pollCurrentNote(relPath: string) {
       view.dispatch({
         changes: { from: 0, to: view.state.doc.length, insert: diskContent },
         selection: { anchor: Math.min(cursorPos, diskContent.length) },
+        annotations: Transaction.remote.of(true),
       });
+      restoreFolds(view, relPath);
       lastSavedContent = diskContent;
+      void noteIndex.invalidate(relPath);
       setStatus('Reloaded (external change)');
       setTimeout(() => setStatus(''), 2000);
     } catch {
@@ -899,6 +1652,41 @@ async function getDirSnapshot(): Promise<string> {
   }
 }
 
+/** Every `.txt` under `relDir`, recursively. */
+async function listNoteFiles(relDir: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (const e of await readDir(relDir, { baseDir: BaseDirectory.Home })) {
+    const childPath = `${relDir}/${e.name}`;
+    if (e.isDirectory) paths.push(...(await listNoteFiles(childPath)));
+    else if (e.name.endsWith('.txt')) paths.push(childPath);
+  }
+  return paths;
+}
+
+/**
+ * Re-index only what changed between two top-level `Notes/` listings: added or removed notes,
+ * and the notes inside added or removed folders.
+ */
+async function invalidateSnapshotChanges(previous: string, next: string) {
+  const notesPath = `${NOTEPLAN_BASE}/Notes`;
+  const before = new Set(previous ? previous.split('\n') : []);
+  const after = new Set(next ? next.split('\n') : []);
+  const changed = [...before].filter((e) => !after.has(e)).concat([...after].filter((e) => !before.has(e)));
+  const paths = new Set<string>();
+  for (const row of changed) {
+    const sep = row.lastIndexOf(':');
+    const relPath = `${notesPath}/${row.slice(0, sep)}`;
+    if (row.slice(sep + 1) !== 'true') {
+      paths.add(relPath);
+      continue;
+    }
+    // Removed folder: its indexed notes; added folder: the notes now in it
+    for (const e of noteIndex.entries) if (e.relPath.startsWith(`${relPath}/`)) paths.add(e.relPath);
+    if (after.has(row)) for (const p of await listNoteFiles(relPath).catch(() => [])) paths.add(p);
+  }
+  await noteIndex.invalidateMany([...paths].filter((p) => p.endsWith('.txt')));
+}
+
 async function pollNotesDirectory() {
   if (dirPollInterval) clearInterval(dirPollInterval);
 
@@ -908,12 +1696,22 @@ async function pollNotesDirectory() {
     try {
       const snapshot = await getDirSnapshot();
       if (snapshot !== lastDirSnapshot) {
+        const previous = lastDirSnapshot ?? '';
         lastDirSnapshot = snapshot;
-        await noteIndex.build();
+        await invalidateSnapshotChanges(previous, snapshot);
         refreshSidebar();
         refreshMentionsSidebar();
         refreshHashtagsSidebar();
+        refreshSavedSearchesSidebar();
+        refreshSidebarCalendar();
+        updateTodayPanel();
+        updateWeekPanel();
+        updateReferencePane();
+      } else if (todayPanelDate && !isSameDay(todayPanelDate, new Date())) {
+        // Past midnight: yesterday's note no longer gets the panel
+        updateTodayPanel();
       }
+      refreshSidebarCalendarOnDayChange();
     } catch {
       // Ignore transient read errors
     }
@@ -940,11 +1738,13 @@ async function navigateTo(note: NoteLocation, addToHistory = true, targetLine?:
     editorEl.style.display = '';
     searchActive = false;
     folderIndexActive = false;
+    setActiveSavedSearch(null);
   }
 
   await flushSave();
 
   currentNote = note;
+  if (titleRenameOfferPath !== note.relPath) hideTitleRenameOffer();
 
   if (addToHistory) {
     navHistory.splice(navIndex + 1);
@@ -954,6 +1754,12 @@ async function navigateTo(note: NoteLocation, addToHistory = true, targetLine?:
 
   updateToolbar(note);
   setActiveTreeItem(note.relPath);
+  if (note.type === 'weekly' && note.weekInfo) {
+    const { year, week } = note.weekInfo;
+    setSidebarCalendarSelection(mondayOfISOWeekNumber(year, week), { year, week });
+  } else {
+    setSidebarCalendarSelection(note.type === 'daily' ? note.date ?? null : null);
+  }
   recordRecentNote(note.relPath);
 
   const content = await loadFile(note.relPath);
@@ -968,6 +1774,7 @@ async function navigateTo(note: NoteLocation, addToHistory = true, targetLine?:
       parent: document.getElementById('editor')!,
     });
   }
+  restoreFolds(view, note.relPath);
 
   if (targetLine && targetLine > 0 && targetLine <= view.state.doc.lines) {
     const v = view;
@@ -983,6 +1790,9 @@ async function navigateTo(note: NoteLocation, addToHistory = true, targetLine?:
 
   pollCurrentNote(note.relPath);
   updateBacklinksPanel(note.relPath);
+  updateTodayPanel();
+  updateWeekPanel();
+  updateReferencePane();
   setStatus('');
   view.focus();
 }
@@ -1000,17 +1810,20 @@ function updateBacklinksPanel(relPath: string) {
 
   if (backlinks.length === 0) {
     title.textContent = 'No backlinks';
+    backlinksRenderToken++;
+    backlinksSyncedKey = null;
     panel.classList.remove('open');
     panel.classList.add('no-backlinks');
   } else {
     title.textContent = `Backlinks (${backlinks.length})`;
     panel.classList.remove('no-backlinks');
+    const items = new Map<string, HTMLElement>();
     for (const entry of backlinks) {
       const item = document.createElement('div');
       item.className = `backlink-item${entry.isArchived ? ' backlink-item--archived' : ''}`;
 
       const icon = document.createElement('i');
-      icon.className = entry.isArchived ? 'ri-archive-line' : 'ri-file-text-line';
+      icon.className = entry.isArchived ? 'ri-archive-line' : entryIconClass(entry);
 
       const label = document.createElement('span');
       if (entry.isArchived) {
@@ -1022,24 +1835,226 @@ function updateBacklinksPanel(relPath: string) {
       item.appendChild(icon);
       item.appendChild(label);
       item.addEventListener('click', () => {
-        navigateTo({
-          type: 'project',
-          relPath: entry.relPath,
-          displayName: entry.title,
-        });
+        navigateTo(noteLocationForEntry(entry));
       });
       list.appendChild(item);
+      items.set(entry.relPath, item);
     }
+    void appendBacklinkLines(relPath, items);
   }
 
   panel.classList.remove('hidden');
 }
 
+/** Block IDs in the open note when the backlinks panel last listed lines; a change re-renders it. */
+let backlinksSyncedKey: string | null = null;
+// Bumped on every render so a slow read never paints over a newer list
+let backlinksRenderToken = 0;
+
+function syncedIdsKey(docText: string): string {
+  return collectBlockIds(docText).sort().join(' ');
+}
+
+/**
+ * Under each backlinking note, the lines that link here, draggable into the editor as synced
+ * lines (pane-drag.ts). Lines already synced into the open note are left out.
+ */
+async function appendBacklinkLines(relPath: string, items: Map<string, HTMLElement>) {
+  const token = ++backlinksRenderToken;
+  const docText = view?.state.doc.toString() ?? '';
+  backlinksSyncedKey = syncedIdsKey(docText);
+  const syncedHere = new Set(collectBlockIds(docText));
+  const results = await noteIndex.searchBacklinkLines(relPath);
+  if (token !== backlinksRenderToken) return;
+  for (const { entry, lines } of results) {
+    let after = items.get(entry.relPath);
+    if (!after) continue;
+    for (const line of lines) {
+      const id = findBlockId(line.text);
+      if (id && syncedHere.has(id)) continue;
+      const row = document.createElement('div');
+      row.className = 'backlink-line';
+      const body = line.text.replace(/^\s*[-+*] (?:\[[ x\->]\] )?/, '');
+      const text = stripTrailingScheduleTokens(stripBlockId(body)) || body.trim();
+      row.textContent = text;
+      row.title = line.text.trim();
+      row.addEventListener('click', () => {
+        navigateTo(noteLocationForEntry(entry), true, line.lineNum);
+      });
+      makePaneLineDraggable(row, { relPath: entry.relPath, lineNum: line.lineNum, text: line.text }, text);
+      after.after(row);
+      after = row;
+    }
+  }
+}
+
+// --- >today carry-forward panel ---
+
+/** Date the panel was last shown for (null when hidden); used to drop it after midnight. */
+let todayPanelDate: Date | null = null;
+
+const todayPanelHandlers: TodayPanelHandlers = {
+  onOpenSource: (entry, lineNum) => {
+    navigateTo(noteLocationForEntry(entry), true, lineNum);
+  },
+  onComplete: async (entry, lineNum, lineText) => {
+    const ok = await completeTaskInFile(entry.relPath, lineNum, lineText);
+    if (!ok) setStatus('Task changed in source note — not completed');
+    updateTodayPanel();
+  },
+};
+
+function updateTodayPanel() {
+  const isToday = currentNote?.type === 'daily' && !!currentNote.date && isSameDay(currentNote.date, new Date());
+  if (searchActive || folderIndexActive || !currentNote || !view || !isToday) {
+    todayPanelDate = null;
+    hideTodayPanel();
+    return;
+  }
+  todayPanelDate = currentNote.date ?? null;
+  void renderTodayPanel(currentNote.relPath, view.state.doc.toString(), todayPanelHandlers);
+}
+
+// --- Weekly tasks panel (daily notes) ---
+
+const weekPanelHandlers: WeekPanelHandlers = {
+  onOpenSource: (entry, lineNum) => {
+    navigateTo(noteLocationForEntry(entry), true, lineNum);
+  },
+  onComplete: async (entry, lineNum, lineText) => {
+    const ok = await completeTaskInFile(entry.relPath, lineNum, lineText);
+    if (!ok) setStatus('Task changed in weekly note — not completed');
+    updateWeekPanel();
+  },
+  onSchedule: async (entry, lineNum, lineText, target) => {
+    const ok = await scheduleTaskInFile(entry.relPath, lineNum, lineText, target);
+    if (!ok) setStatus('Task changed in weekly note — not scheduled');
+    updateWeekPanel();
+  },
+};
+
+function updateWeekPanel() {
+  if (searchActive || folderIndexActive || !currentNote || !view || currentNote.type !== 'daily' || !currentNote.date) {
+    hideWeekPanel();
+    return;
+  }
+  const { year, week } = getSchedulingISOWeek(currentNote.date);
+  const weekly = weeklyNoteForWeek(year, week);
+  void renderWeekPanel(currentNote.date, weekly.relPath, weekly.displayName, view.state.doc.toString(), weekPanelHandlers);
+}
+
+// --- @mention reference pane ---
+
+const referencePaneHandlers: ReferencePaneHandlers = {
+  onOpenSource: (entry, lineNum) => {
+    navigateTo(noteLocationForEntry(entry), true, lineNum);
+  },
+  onComplete: async (entry, lineNum, lineText) => {
+    const ok = await completeTaskInFile(entry.relPath, lineNum, lineText);
+    if (!ok) setStatus('Task changed in source note — not completed');
+    updateReferencePane();
+  },
+};
+
+function updateReferencePane() {
+  if (searchActive || folderIndexActive || !currentNote || !view) {
+    hideReferencePane();
+    return;
+  }
+  void renderReferencePane(currentNote.relPath, view.state.doc.toString(), referencePaneHandlers);
+}
+
+/**
+ * Mark a task done in a file that is not open in the editor. `lineNum` is a hint; if the file moved
+ * on, the first line with identical text is used. Synced copies are updated too.
+ */
+async function completeTaskInFile(relPath: string, lineNum: number, expectedText: string): Promise<boolean> {
+  try {
+    const content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+    const lines = content.split('\n');
+    let idx = lineNum - 1;
+    if (lines[idx] !== expectedText) idx = lines.indexOf(expectedText);
+    if (idx < 0) return false;
+    const done = completedTaskLine(lines[idx]);
+    if (!done) return false;
+    lines[idx] = done;
+    const next = lines.join('\n');
+    await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
+    noteIndex.updateEntry(relPath, next);
+    const blockId = findBlockId(done);
+    if (blockId) {
+      pendingSyncedLines.set(blockId, { relPath, text: done });
+      await propagateSyncedLines();
+    }
+    return true;
+  } catch (err) {
+    console.error('[daymark] Complete task failed:', relPath, err);
+    return false;
+  }
+}
+
+/**
+ * Schedule an open task in a file that is not open in the editor, exactly as the editor's
+ * Schedule menu does: the source becomes `[>]` with the schedule token, and dated targets get a
+ * synced copy. `lineNum` is a hint, as for `completeTaskInFile`.
+ */
+async function scheduleTaskInFile(
+  relPath: string,
+  lineNum: number,
+  expectedText: string,
+  target: ScheduleTarget,
+): Promise<boolean> {
+  try {
+    const content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+    const lines = content.split('\n');
+    let idx = lineNum - 1;
+    if (lines[idx] !== expectedText) idx = lines.indexOf(expectedText);
+    if (idx < 0) return false;
+    const resolved = resolveListLineText(lines[idx]);
+    if (!resolved || (resolved.kind !== 'task' && resolved.kind !== 'checklist')) return false;
+
+    const lineText = lines[idx];
+    const body = cleanedTaskBody(lineText, 0, resolved);
+    const previous = resolved.taskState === 'scheduled' ? trailingScheduleTarget(lineText) : null;
+    const existingId = findBlockId(lineText);
+    const mintBlockId = blockIdMinter();
+    const blockId = target.kind === 'today' ? undefined : existingId ?? mintBlockId();
+    const childCount = indentedChildCount(lines, idx);
+    const block = buildScheduledChildLines(
+      lines.slice(idx + 1, idx + 1 + childCount),
+      lineText.match(/^\s*/)?.[0] ?? '',
+      target,
+      mintBlockId,
+    );
+    lines.splice(idx, 1 + childCount, buildScheduledSourceLine(lineText, 0, resolved, target, blockId), ...block.source);
+    const next = lines.join('\n');
+    await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
+    noteIndex.updateEntry(relPath, next);
+    const removal = await removeScheduledCopy(previous, { blockId: existingId, body, backRefISO: sourceBackRefISO(relPath) });
+
+    if (target.kind === 'today' || !blockId) {
+      setStatus(`Scheduled with >today${keptCopiesNote(removal)}`);
+      return true;
+    }
+    if (existingId) {
+      // Existing copies take the new schedule token
+      pendingSyncedLines.set(blockId, { relPath, text: lines[idx] });
+      await propagateSyncedLines();
+    }
+    const destLine = buildSyncedDestinationLine(body, blockId, target, resolved.kind);
+    await appendScheduledCopy(target, [destLine, ...block.destination].join('\n'), keptCopiesNote(removal));
+    return true;
+  } catch (err) {
+    console.error('[daymark] Schedule task failed:', relPath, err);
+    return false;
+  }
+}
+
 function dailyNote(date: Date): NoteLocation {
   return {
     type: 'daily',
     relPath: `${NOTEPLAN_BASE}/Calendar/${formatDateForFile(date)}`,
-    displayName: formatDateForDisplay(date),
+    displayName: formatDailyNoteTitle(date),
     date,
   };
 }
@@ -1048,7 +2063,7 @@ function weeklyNoteForWeek(year: number, week: number): NoteLocation {
   return {
     type: 'weekly',
     relPath: `${NOTEPLAN_BASE}/Calendar/${formatWeeklyCalendarFilename(year, week)}`,
-    displayName: weeklyDisplayNameForWeek(year, week),
+    displayName: formatWeeklyNoteTitle(year, week),
     weekInfo: { year, week },
   };
 }
@@ -1058,6 +2073,62 @@ function currentWeeklyNote(): NoteLocation {
   return weeklyNoteForWeek(year, week);
 }
 
+const PERIOD_NOTE_TYPES: readonly PeriodNoteType[] = ['monthly', 'quarterly', 'yearly'];
+
+/** Months between consecutive notes of each period type (prev/next navigation). */
+const PERIOD_NOTE_MONTHS: Record<PeriodNoteType, number> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+function isPeriodNoteType(type: NoteType): type is PeriodNoteType {
+  return (PERIOD_NOTE_TYPES as readonly NoteType[]).includes(type);
+}
+
+/** The monthly, quarterly or yearly note whose period contains `date`. */
+function periodNoteContaining(type: PeriodNoteType, date: Date): NoteLocation {
+  const year = date.getFullYear();
+  if (type === 'monthly') {
+    const month = date.getMonth() + 1;
+    return {
+      type,
+      relPath: `${NOTEPLAN_BASE}/Calendar/${formatMonthlyCalendarFilename(year, month)}`,
+      displayName: formatMonthlyNoteTitle(year, month),
+      date: new Date(year, month - 1, 1),
+    };
+  }
+  if (type === 'quarterly') {
+    const quarter = Math.floor(date.getMonth() / 3) + 1;
+    return {
+      type,
+      relPath: `${NOTEPLAN_BASE}/Calendar/${formatQuarterlyCalendarFilename(year, quarter)}`,
+      displayName: formatQuarterlyNoteTitle(year, quarter),
+      date: new Date(year, (quarter - 1) * 3, 1),
+    };
+  }
+  return {
+    type,
+    relPath: `${NOTEPLAN_BASE}/Calendar/${formatYearlyCalendarFilename(year)}`,
+    displayName: formatYearlyNoteTitle(year),
+    date: new Date(year, 0, 1),
+  };
+}
+
+/** The period note `steps` periods before (negative) or after the one starting at `start`. */
+function shiftedPeriodNote(type: PeriodNoteType, start: Date, steps: number): NoteLocation {
+  const date = new Date(start.getFullYear(), start.getMonth() + steps * PERIOD_NOTE_MONTHS[type], 1);
+  return periodNoteContaining(type, date);
+}
+
+/** Calendar note a schedule token points at (`>today` is today's daily note). */
+function noteLocationForScheduleTarget(target: ScheduleTarget): NoteLocation {
+  switch (target.kind) {
+    case 'today': return dailyNote(new Date());
+    case 'date': return dailyNote(target.date);
+    case 'week': return weeklyNoteForWeek(target.year, target.week);
+    case 'month': return periodNoteContaining('monthly', new Date(target.year, target.month - 1, 1));
+    case 'quarter': return periodNoteContaining('quarterly', new Date(target.year, (target.quarter - 1) * 3, 1));
+    case 'year': return periodNoteContaining('yearly', new Date(target.year, 0, 1));
+  }
+}
+
 function projectNote(node: TreeNode): NoteLocation {
   return {
     type: 'project',
@@ -1066,6 +2137,23 @@ function projectNote(node: TreeNode): NoteLocation {
   };
 }
 
+/** Where to open an index entry: calendar entries open as calendar notes (date nav, toolbar). */
+function noteLocationForEntry(entry: NoteEntry): NoteLocation {
+  if (entry.kind === 'daily' && entry.date) return dailyNote(entry.date);
+  if (entry.kind === 'weekly' && entry.date) {
+    const { year, week } = getISOWeek(entry.date);
+    return weeklyNoteForWeek(year, week);
+  }
+  if (entry.kind !== 'project' && isPeriodNoteType(entry.kind) && entry.date) {
+    return periodNoteContaining(entry.kind, entry.date);
+  }
+  return { type: 'project', relPath: entry.relPath, displayName: entry.title };
+}
+
+function entryIconClass(entry: NoteEntry): string {
+  return entry.kind === 'project' ? 'ri-file-text-line' : 'ri-calendar-line';
+}
+
 async function openNoteInNewWindow(relPath: string): Promise<void> {
   const url = new URL(window.location.href);
   url.search = '';
@@ -1076,14 +2164,35 @@ async function openNoteInNewWindow(relPath: string): Promise<void> {
     title: 'Daymark',
     width: 1200,
     height: 800,
+    // Native file drop would swallow HTML drag-and-drop (pane lines into the editor)
+    dragDropEnabled: false,
   });
 }
 
 async function handleSidebarFsMutation(m: SidebarFsMutation): Promise<void> {
-  await noteIndex.build();
+  // Notes linking to the old filename, looked up before the index forgets it
+  const relink = m.kind === 'note-path-changed' && linkNameChanged(m.from, m.to) && !isInsideTrash(m.to)
+    ? noteIndex.getBacklinks(m.from)
+    : [];
+  if (m.kind === 'note-path-changed') {
+    // Single file moved: re-index just the two paths
+    await noteIndex.invalidateMany([m.from, m.to]);
+  } else if (m.kind === 'folder-path-changed') {
+    // The notes that were under the old folder and the ones now under the new one
+    const moved = noteIndex.entries.filter((e) => e.relPath.startsWith(`${m.from}/`)).map((e) => e.relPath);
+    const added = await listNoteFiles(m.to).catch(() => []);
+    await noteIndex.invalidateMany([...moved, ...added]);
+  } else if (m.kind === 'paths-deleted') {
+    const gone = noteIndex.entries.filter((e) => m.paths.some((p) => e.relPath === p || e.relPath.startsWith(`${p}/`)));
+    await noteIndex.invalidateMany(gone.map((e) => e.relPath));
+  } else {
+    await noteIndex.build();
+  }
   await refreshSidebar();
   refreshMentionsSidebar();
   refreshHashtagsSidebar();
+  refreshSavedSearchesSidebar();
+  refreshSidebarCalendar();
   if (
     m.kind === 'note-path-changed'
     && currentNote?.type === 'project'
@@ -1094,6 +2203,92 @@ async function handleSidebarFsMutation(m: SidebarFsMutation): Promise<void> {
     const displayName = ent?.title ?? base;
     await navigateTo({ type: 'project', relPath: m.to, displayName }, false);
   }
+  if (
+    m.kind === 'folder-path-changed'
+    && currentNote?.type === 'project'
+    && currentNote.relPath.startsWith(`${m.from}/`)
+  ) {
+    // The open note moved with its folder
+    const relPath = `${m.to}${currentNote.relPath.slice(m.from.length)}`;
+    await navigateTo({ type: 'project', relPath, displayName: currentNote.displayName }, false);
+  }
+  const openRel = currentNote?.type === 'project' ? currentNote.relPath : null;
+  if (m.kind === 'paths-deleted' && openRel && m.paths.some((p) => openRel === p || openRel.startsWith(`${p}/`))) {
+    // The open note was deleted from the Trash
+    await navigateTo(dailyNote(new Date()), false);
+  }
+  if (m.kind === 'note-path-changed' && relink.length > 0) {
+    await updateLinksAfterRename(m.from, m.to, relink);
+  }
+}
+
+/** After a note's filename changed, offer to point `[[Old Name]]` links in `linking` at the new name. */
+async function updateLinksAfterRename(from: string, to: string, linking: readonly NoteEntry[]) {
+  const oldName = noteLinkName(from);
+  const newName = noteLinkName(to);
+  await rewriteNotesWithPreview(
+    linking,
+    'Update links',
+    `Update links [[${oldName}]] → [[${newName}]]`,
+    (text) => renameWikiLinkInText(text, oldName, newName),
+    `No links to [[${oldName}]] to update`,
+  );
+}
+
+/** Project note whose H1 was edited away from its filename while the rename offer is shown. */
+let titleRenameOfferPath: string | null = null;
+let titleRenameOfferTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function hideTitleRenameOffer() {
+  const btn = document.getElementById('status-action') as HTMLButtonElement | null;
+  if (titleRenameOfferTimeout) clearTimeout(titleRenameOfferTimeout);
+  titleRenameOfferTimeout = null;
+  titleRenameOfferPath = null;
+  if (!btn) return;
+  btn.onclick = null;
+  btn.classList.add('hidden');
+}
+
+/**
+ * After a save: when a project note's H1 moved away from its filename (they matched before),
+ * offer to rename the file to the new title and update links to it.
+ */
+function offerTitleRename(note: NoteLocation, previousTitle: string | undefined) {
+  if (note.type !== 'project' || isInsideTrash(note.relPath)) return;
+  const title = noteIndex.getEntry(note.relPath)?.title;
+  const name = noteLinkName(note.relPath);
+  if (!title || title === previousTitle) return;
+  if (title === name) {
+    if (titleRenameOfferPath === note.relPath) hideTitleRenameOffer();
+    return;
+  }
+  if (previousTitle !== name && titleRenameOfferPath !== note.relPath) return;
+
+  const btn = document.getElementById('status-action') as HTMLButtonElement | null;
+  if (!btn) return;
+  if (titleRenameOfferTimeout) clearTimeout(titleRenameOfferTimeout);
+  titleRenameOfferPath = note.relPath;
+  btn.textContent = 'H1 changed — rename file to match?';
+  btn.title = `Rename the file "${name}" to match its title, then update links to it`;
+  btn.disabled = false;
+  btn.classList.remove('hidden');
+  btn.onclick = () => {
+    btn.disabled = true;
+    const relPath = note.relPath;
+    hideTitleRenameOffer();
+    void (async () => {
+      await flushSave();
+      // The title as it is now, not when the offer appeared
+      const current = noteIndex.getEntry(relPath)?.title;
+      if (!current || currentNote?.relPath !== relPath) return;
+      const m = await renameNoteToTitle(relPath, current);
+      if (m.kind !== 'none') await handleSidebarFsMutation(m);
+    })().catch((err) => {
+      setStatus(`Rename failed: ${err}`);
+      console.error('[daymark] Title rename failed:', err);
+    });
+  };
+  titleRenameOfferTimeout = setTimeout(hideTitleRenameOffer, BATCH_UNDO_TIMEOUT_MS);
 }
 
 // Navigate to previous or next period depending on note type
@@ -1109,6 +2304,8 @@ function navigatePrev() {
     } else {
       navigateTo(weeklyNoteForWeek(year, week - 1));
     }
+  } else if (isPeriodNoteType(currentNote.type) && currentNote.date) {
+    navigateTo(shiftedPeriodNote(currentNote.type, currentNote.date, -1));
   }
 }
 
@@ -1124,6 +2321,8 @@ function navigateNext() {
     } else {
       navigateTo(weeklyNoteForWeek(year, week + 1));
     }
+  } else if (isPeriodNoteType(currentNote.type) && currentNote.date) {
+    navigateTo(shiftedPeriodNote(currentNote.type, currentNote.date, 1));
   }
 }
 
@@ -1133,6 +2332,8 @@ function navigateToday() {
     navigateTo(dailyNote(new Date()));
   } else if (currentNote.type === 'weekly') {
     navigateTo(currentWeeklyNote());
+  } else if (isPeriodNoteType(currentNote.type)) {
+    navigateTo(periodNoteContaining(currentNote.type, new Date()));
   }
 }
 
@@ -1171,62 +2372,259 @@ function wireResizeHandle() {
 // --- Init ---
 
 function wireTaskScheduleExecutor() {
-  registerTaskScheduleExecutor(async (v, lineNumber, resolved, target) => {
+  registerTaskScheduleExecutor(async (v, lineNumber, resolved, target, options = {}) => {
     const line = v.state.doc.line(lineNumber);
-    const body = cleanedTaskBody(line.text, line.from, resolved);
-    const sourceLine = buildScheduledSourceLine(line.text, line.from, resolved, target);
+    const text = options.lineText ?? line.text;
+    const body = cleanedTaskBody(text, line.from, resolved);
+    // Rescheduling: the copy in the note named by the old token moves to the new target.
+    const previous = resolved.taskState === 'scheduled' ? trailingScheduleTarget(text) : null;
+    const existingId = findBlockId(text);
+    const sourceRelPath = currentNote?.relPath ?? '';
+    // Dated targets get a synced copy: reuse the line's ^blockid or mint one (subtasks likewise).
+    const mintBlockId = blockIdMinter();
+    const blockId = target.kind === 'today' ? undefined : existingId ?? mintBlockId();
+    const sourceLine = buildScheduledSourceLine(text, line.from, resolved, target, blockId);
+    // Subtasks, bullets and notes indented under the task are scheduled with it
+    const docLines = v.state.doc.toString().split('\n');
+    const children = docLines.slice(lineNumber, lineNumber + indentedChildCount(docLines, lineNumber - 1));
+    const block = buildScheduledChildLines(
+      children,
+      text.match(/^\s*/)?.[0] ?? '',
+      target,
+      mintBlockId,
+    );
+    const blockEnd = v.state.doc.line(lineNumber + children.length).to;
 
-    v.dispatch({ changes: { from: line.from, to: line.to, insert: sourceLine } });
+    v.dispatch({ changes: { from: line.from, to: blockEnd, insert: [sourceLine, ...block.source].join('\n') } });
     scheduleSave();
     v.focus();
 
-    if (target.kind === 'today') {
-      setStatus('Scheduled with >today');
+    const removal = await removeScheduledCopy(previous, {
+      blockId: existingId,
+      body,
+      backRefISO: sourceBackRefISO(sourceRelPath),
+    });
+
+    if (target.kind === 'today' || !blockId) {
+      setStatus(`Scheduled with >today${keptCopiesNote(removal)}`);
       return;
     }
 
-    const backRef =
-      currentNote?.type === 'daily' && currentNote.date
-        ? formatISODate(currentNote.date)
-        : formatISODate(new Date());
-    const destLine = buildDestinationLine(body, backRef);
-
-    let relPath: string;
-    let statusDetail: string;
-    if (target.kind === 'week') {
-      relPath = `${NOTEPLAN_BASE}/Calendar/${formatWeeklyCalendarFilename(target.year, target.week)}`;
-      statusDetail = `${target.year}-W${String(target.week).padStart(2, '0')}`;
-    } else {
-      relPath = `${NOTEPLAN_BASE}/Calendar/${formatDateForFile(target.date)}`;
-      statusDetail = formatDateForDisplay(target.date);
-    }
+    const destLine = buildSyncedDestinationLine(
+      body,
+      blockId,
+      target,
+      resolved.kind === 'checklist' ? 'checklist' : 'task',
+    );
+    await appendScheduledCopy(target, [destLine, ...block.destination].join('\n'), keptCopiesNote(removal));
+  });
 
-    if (currentNote?.relPath === relPath && view === v) {
-      const doc = v.state.doc;
-      const endsWithNewline = doc.length > 0 && v.state.doc.sliceString(doc.length - 1) === '\n';
-      const insert = doc.length === 0 ? `${destLine}\n` : endsWithNewline ? `${destLine}\n` : `\n${destLine}\n`;
-      v.dispatch({ changes: { from: doc.length, to: doc.length, insert } });
-      scheduleSave();
-      setStatus(`Scheduled to ${statusDetail}`);
-      return;
-    }
+  registerTaskUnscheduleExecutor(async (v, lineNumber, resolved) => {
+    let line = v.state.doc.line(lineNumber);
+    const previous = trailingScheduleTarget(line.text);
+    const blockId = findBlockId(line.text);
+    const sourceRelPath = currentNote?.relPath ?? '';
+    const copyNote = previous && previous.kind !== 'today' ? scheduleTargetNote(previous) : null;
+    // Keep the ^blockid only while a synced copy outside the scheduled one remains
+    const keepBlockId = !!blockId && noteIndex.getBlockIdPaths(blockId)
+      .some((p) => p !== sourceRelPath && p !== copyNote?.relPath);
+
+    const removed = await removeScheduledCopy(previous, {
+      blockId,
+      body: cleanedTaskBody(line.text, line.from, resolved),
+      backRefISO: sourceBackRefISO(sourceRelPath),
+    });
+    if (removed?.relPath === sourceRelPath && removed.index < lineNumber - 1) lineNumber -= removed.count;
+    if (currentNote?.relPath !== sourceRelPath || lineNumber > v.state.doc.lines) return;
+
+    line = v.state.doc.line(lineNumber);
+    const fresh = resolveListLineText(line.text);
+    if (!fresh || fresh.taskState !== 'scheduled') return;
+    const docLines = v.state.doc.toString().split('\n');
+    const children = docLines.slice(lineNumber, lineNumber + indentedChildCount(docLines, lineNumber - 1));
+    const sourceLines = [buildUnscheduledSourceLine(line.text, 0, fresh, keepBlockId), ...buildUnscheduledChildLines(children)];
+    const blockEnd = v.state.doc.line(lineNumber + children.length).to;
+    v.dispatch({ changes: { from: line.from, to: blockEnd, insert: sourceLines.join('\n') } });
+    scheduleSave();
+    v.focus();
+    setStatus(removed?.count ? `Unscheduled (removed copy from ${removed.label})` : `Unscheduled${keptCopiesNote(removed)}`);
+  });
+}
+
+type DatedScheduleTarget = Exclude<ScheduleTarget, { kind: 'today' }>;
 
+/** Calendar note a dated schedule target copies into, with its label for the status bar. */
+function scheduleTargetNote(target: DatedScheduleTarget): { relPath: string; label: string } {
+  if (target.kind === 'week') {
+    return {
+      relPath: `${NOTEPLAN_BASE}/Calendar/${formatWeeklyCalendarFilename(target.year, target.week)}`,
+      label: `${target.year}-W${String(target.week).padStart(2, '0')}`,
+    };
+  }
+  if (target.kind === 'month') {
+    const note = periodNoteContaining('monthly', new Date(target.year, target.month - 1, 1));
+    return { relPath: note.relPath, label: note.displayName };
+  }
+  if (target.kind === 'quarter') {
+    const note = periodNoteContaining('quarterly', new Date(target.year, (target.quarter - 1) * 3, 1));
+    return { relPath: note.relPath, label: `Q${target.quarter} ${target.year}` };
+  }
+  if (target.kind === 'year') {
+    const note = periodNoteContaining('yearly', new Date(target.year, 0, 1));
+    return { relPath: note.relPath, label: note.displayName };
+  }
+  return {
+    relPath: `${NOTEPLAN_BASE}/Calendar/${formatDateForFile(target.date)}`,
+    label: formatDailyNoteTitle(target.date),
+  };
+}
+
+/** Fresh `^blockid`s for one schedule action, unique in the index and among themselves. */
+function blockIdMinter(): () => string {
+  const minted = new Set<string>();
+  return () => {
+    const id = generateBlockId((candidate) => minted.has(candidate) || noteIndex.hasBlockId(candidate));
+    minted.add(id);
+    return id;
+  };
+}
+
+/** `<date` back-ref that legacy (non-synced) copies of a task in `relPath` carry: the daily note's date. */
+function sourceBackRefISO(relPath: string): string | null {
+  const ref = parseCalendarFilename(relPath.slice(relPath.lastIndexOf('/') + 1));
+  return ref?.kind === 'daily' ? formatISODate(ref.date) : null;
+}
+
+/** Where `removeScheduledCopy` looked: `count` lines removed at `index`, or none when `matches` lines could be the copy. */
+interface ScheduledCopyRemoval {
+  relPath: string;
+  label: string;
+  index: number;
+  count: number;
+  matches: number;
+}
+
+/**
+ * Take a scheduled task's copy, with the subtasks copied under it, out of the note it was
+ * scheduled to (`previous`, from the source's old token): through the editor when that note is
+ * open, else by rewriting the file. Returns null when there was no copy. When several lines match
+ * (synced copies placed by hand share the block ID) the note is left alone with `count` 0.
+ */
+async function removeScheduledCopy(
+  previous: ScheduleTarget | null,
+  match: ScheduledCopyMatch,
+): Promise<ScheduledCopyRemoval | null> {
+  if (!previous || previous.kind === 'today') return null;
+  const { relPath, label } = scheduleTargetNote(previous);
+
+  if (currentNote?.relPath === relPath && view) {
+    const doc = view.state.doc;
+    const content = doc.toString();
+    const found = findScheduledCopyLines(content, match);
+    if (found.length === 0) return null;
+    if (found.length > 1) return { relPath, label, index: -1, count: 0, matches: found.length };
+    const index = found[0];
+    const count = 1 + indentedChildCount(content.split('\n'), index);
+    const first = doc.line(index + 1);
+    const last = doc.line(index + count);
+    // Take the block's newline with it (the one before it at the end of the note)
+    const from = last.to === doc.length && first.from > 0 ? first.from - 1 : first.from;
+    const to = last.to < doc.length ? last.to + 1 : last.to;
+    view.dispatch({ changes: { from, to }, annotations: Transaction.remote.of(true) });
+    scheduleSave();
+    return { relPath, label, index, count, matches: 1 };
+  }
+
+  try {
+    const content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+    const found = findScheduledCopyLines(content, match);
+    if (found.length === 0) return null;
+    if (found.length > 1) return { relPath, label, index: -1, count: 0, matches: found.length };
+    const index = found[0];
+    const count = 1 + indentedChildCount(content.split('\n'), index);
+    const next = removeLineAt(content, index, count);
+    await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
+    noteIndex.updateEntry(relPath, next);
+    return { relPath, label, index, count, matches: 1 };
+  } catch (e) {
+    // Old target note missing: nothing to move
+    console.error('[daymark] Removing scheduled copy failed:', relPath, e);
+    return null;
+  }
+}
+
+/** Status suffix when `removeScheduledCopy` left the old note alone, so the user can tidy it. */
+function keptCopiesNote(removal: ScheduledCopyRemoval | null): string {
+  return removal && removal.count === 0 ? ` (${removal.matches} copies in ${removal.label} left in place)` : '';
+}
+
+/**
+ * Append a scheduled task's synced copy to the target calendar note: through the editor when
+ * that note is open, else by rewriting the file. Sets the status either way, ending in `statusNote`.
+ */
+async function appendScheduledCopy(target: DatedScheduleTarget, destLine: string, statusNote = '') {
+  const { relPath, label: statusDetail } = scheduleTargetNote(target);
+
+  if (currentNote?.relPath === relPath && view) {
+    const doc = view.state.doc;
+    const endsWithNewline = doc.length > 0 && view.state.doc.sliceString(doc.length - 1) === '\n';
+    const insert = doc.length === 0 ? `${destLine}\n` : endsWithNewline ? `${destLine}\n` : `\n${destLine}\n`;
+    view.dispatch({ changes: { from: doc.length, to: doc.length, insert } });
+    scheduleSave();
+    setStatus(`Scheduled to ${statusDetail}${statusNote}`);
+    return;
+  }
+
+  try {
+    let content = '';
     try {
-      let content = '';
-      try {
-        content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
-      } catch {
-        content = '';
-      }
-      const tail = content.replace(/\s+$/, '');
-      const next = tail === '' ? `${destLine}\n` : `${tail}\n${destLine}\n`;
-      await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
-      setStatus(`Scheduled to ${statusDetail}`);
-    } catch (e) {
-      console.error('[daymark] Schedule write failed:', e);
-      setStatus(`Schedule failed: ${e}`);
+      content = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+    } catch {
+      content = '';
     }
-  });
+    const tail = content.replace(/\s+$/, '');
+    const next = tail === '' ? `${destLine}\n` : `${tail}\n${destLine}\n`;
+    await writeTextFile(relPath, next, { baseDir: BaseDirectory.Home });
+    noteIndex.updateEntry(relPath, next);
+    setStatus(`Scheduled to ${statusDetail}${statusNote}`);
+  } catch (e) {
+    console.error('[daymark] Schedule write failed:', e);
+    setStatus(`Schedule failed: ${e}`);
+  }
+}
+
+/** Schedule every open task of the open daily note to `target`: one editor change, one write per copy note. */
+async function moveOpenTasks(target: ScheduleTarget) {
+  if (!view || currentNote?.type !== 'daily' || !currentNote.date) return;
+  if (target.kind === 'date' && formatISODate(target.date) === formatISODate(currentNote.date)) {
+    setStatus('Open tasks are already on this day');
+    return;
+  }
+  const result = scheduleOpenTasks(view.state.doc.toString().split('\n'), target, blockIdMinter());
+  if (result.count === 0) {
+    setStatus('No open tasks to move');
+    return;
+  }
+  replaceEditorLines(view, result.lines);
+  scheduleSave();
+  if (target.kind !== 'today' && result.destination.length > 0) {
+    await appendScheduledCopy(target, result.destination.join('\n'));
+    const plural = result.count === 1 ? 'task' : 'tasks';
+    setStatus(`Moved ${result.count} open ${plural} to ${scheduleTargetNote(target).label}`);
+  }
+}
+
+/** Move the open note's done and cancelled tasks into its Done section (one undo step). */
+function moveDoneTasks() {
+  if (!view || !currentNote || searchActive || folderIndexActive) return;
+  const result = moveDoneTasksToBottom(view.state.doc.toString().split('\n'));
+  if (result.count === 0) {
+    setStatus('No done tasks to move');
+    return;
+  }
+  replaceEditorLines(view, result.lines);
+  scheduleSave();
+  setStatus(`Moved ${result.count} done ${result.count === 1 ? 'task' : 'tasks'} to the bottom`);
 }
 
 function wireNavButtons() {
@@ -1243,11 +2641,20 @@ function wireNavButtons() {
   document.getElementById('link-weekly')?.addEventListener('click', () => {
     navigateTo(currentWeeklyNote());
   });
+  for (const type of PERIOD_NOTE_TYPES) {
+    document.getElementById(`link-${type}`)?.addEventListener('click', () => {
+      navigateTo(periodNoteContaining(type, new Date()));
+    });
+  }
+  document.getElementById('link-search')?.addEventListener('click', () => {
+    openTextSearch();
+  });
 
   // Global keyboard shortcuts
   document.addEventListener('keydown', (e) => {
     if (e.metaKey && e.key === '[') { e.preventDefault(); goBack(); }
     if (e.metaKey && e.key === ']') { e.preventDefault(); goForward(); }
+    if (e.metaKey && e.key.toLowerCase() === 'f') { e.preventDefault(); openTextSearch(); }
     if (e.key === 'Escape' && (searchActive || folderIndexActive)) {
       e.preventDefault();
       closeSearch();
@@ -1271,8 +2678,16 @@ async function init() {
   wireTaskScheduleExecutor();
   wireNavButtons();
   wireFormattingToolbar();
+  wireNoteActionsMenu({
+    canMoveOpenTasks: () => !searchActive && !folderIndexActive && currentNote?.type === 'daily',
+    hasNote: () => !searchActive && !folderIndexActive && !!currentNote,
+    onMoveOpenTasks: (target) => void moveOpenTasks(target),
+    onMoveDoneToBottom: moveDoneTasks,
+  });
   wireResizeHandle();
   wireBacklinksPanel();
+  wireTodayPanel();
+  wireWeekPanel();
 
   const params = new URLSearchParams(window.location.search);
   const openNoteRel = params.get('openNote');
@@ -1303,11 +2718,9 @@ async function init() {
     const entry = noteIndex.getEntry(openNoteRel);
     const base = openNoteRel.split('/').pop()?.replace(/\.txt$/, '') ?? 'Note';
     await navigateTo(
-      {
-        type: 'project',
-        relPath: openNoteRel,
-        displayName: entry?.title ?? base,
-      },
+      entry
+        ? noteLocationForEntry(entry)
+        : { type: 'project', relPath: openNoteRel, displayName: base },
       true,
     );
   } else {
@@ -1317,10 +2730,31 @@ async function init() {
   }
 
   if (currentNote) updateBacklinksPanel(currentNote.relPath);
+  updateTodayPanel();
+  updateWeekPanel();
+  updateReferencePane();
 
   // Build mentions sidebar now that index is ready
-  renderMentionsSidebar((mention) => showTagSearch(mention));
+  renderMentionsSidebar((mention) => showTagSearch(mention), {
+    renameMention: renameMentionEverywhere,
+    deleteMention: deleteMentionEverywhere,
+    archiveMention: archiveMentionEverywhere,
+    onError: (msg) => {
+      setStatus(msg);
+      console.error('[daymark] Mention action:', msg);
+    },
+  });
   renderHashtagsSidebar((hashtag) => showTagSearch(hashtag));
+  renderSavedSearchesSidebar((saved) => showTextSearch(saved.query, true, saved.name));
+  renderSidebarCalendar({
+    onOpenDay: (date) => navigateTo(dailyNote(date)),
+    onOpenWeek: (year, week) => navigateTo(weeklyNoteForWeek(year, week)),
+  });
+
+  // Trash auto-purge is off unless set from the Trash folder's menu
+  purgeExpiredTrash()
+    .then((m) => (m.kind === 'none' ? undefined : handleSidebarFsMutation(m)))
+    .catch((err) => console.error('[daymark] Trash purge failed:', err));
 
   pollNotesDirectory();
 }
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  lineDatesFromHeadings,
+  organizeReferences,
+  parseHeadingDate,
+  referenceKind,
+  trackedMentions,
+  type ReferenceLine,
+} from './mention-references';
+
+describe('trackedMentions', () => {
+  it('reads mentions from the line after the H1', () => {
+    expect(trackedMentions('# Alex Mann\n@AlexMann @alexmann @team/Design\n\n@Other later')).toEqual([
+      '@AlexMann',
+      '@team/Design',
+    ]);
+  });
+
+  it('tracks nothing without an H1 or mentions on that line', () => {
+    expect(trackedMentions('@AlexMann\n@AlexMann')).toEqual([]);
+    expect(trackedMentions('# Alex\nNotes about @AlexMann')).toEqual(['@AlexMann']);
+    expect(trackedMentions('# Alex\n\n@AlexMann')).toEqual([]);
+    expect(trackedMentions('# Alex\nemail@AlexMann.com')).toEqual([]);
+  });
+});
+
+describe('heading dates', () => {
+  it('parses ISO and month-name headings', () => {
+    expect(parseHeadingDate('## 2026-02-25 sync')).toEqual(new Date(2026, 1, 25));
+    expect(parseHeadingDate('### Feb 3, 2026')).toEqual(new Date(2026, 1, 3));
+    expect(parseHeadingDate('### 3 February 2026')).toEqual(new Date(2026, 1, 3));
+    expect(parseHeadingDate('## 2026-02-30')).toBeNull();
+    expect(parseHeadingDate('2026-02-25')).toBeNull();
+  });
+
+  it('dates lines by the nearest heading above, else the newest heading', () => {
+    const lines = ['# Alex', 'intro', '## 2026-03-01', 'a', '## 2026-01-10', 'b'];
+    expect(lineDatesFromHeadings(lines).map((d) => d?.getMonth() ?? null)).toEqual([2, 2, 2, 2, 0, 0]);
+    expect(lineDatesFromHeadings(['# Alex', 'x'])).toEqual([null, null]);
+  });
+});
+
+describe('organizeReferences', () => {
+  const now = new Date(2026, 9, 19);
+  const line = (lineNum: number, text: string, date: Date | null = null): ReferenceLine => ({
+    lineNum,
+    text,
+    kind: referenceKind(text),
+    date,
+  });
+  const groups = [
+    {
+      entry: 'Meeting',
+      lines: [line(1, 'talked to @Alex'), line(2, '- ask @Alex about Q3'), line(3, '- [x] sent @Alex the doc')],
+    },
+    { entry: 'Old', lines: [line(4, '- [ ] follow up @Alex', new Date(2026, 5, 1))] },
+  ];
+
+  it('puts open tasks first and hides completed and old references by default', () => {
+    const out = organizeReferences(groups, { hideCompleted: true, maxAgeDays: 90 }, now);
+    expect(out.openTasks.map((g) => [g.entry, g.lines.map((l) => l.lineNum)])).toEqual([['Meeting', [2]]]);
+    expect(out.other.map((g) => [g.entry, g.lines.map((l) => l.lineNum)])).toEqual([['Meeting', [1]]]);
+    expect(out.hidden).toBe(2);
+  });
+
+  it('shows everything with the filters off', () => {
+    const out = organizeReferences(groups, { hideCompleted: false, maxAgeDays: null }, now);
+    expect(out.openTasks.map((g) => g.entry)).toEqual(['Meeting', 'Old']);
+    expect(out.other[0].lines.map((l) => l.lineNum)).toEqual([1, 3]);
+    expect(out.hidden).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @mention reference pane logic (see KNOWLEDGE § @Mention reference pane): which mentions a note
+ * tracks, how a referencing line is dated, and how references are filtered and ordered. File
+ * reading lives in note-index.ts and rendering in reference-pane.ts.
+ */
+
+export type ReferenceKind = 'open' | 'closed' | 'text';
+
+/** One line mentioning a tracked @mention. `date` is null when nothing dates it (always shown). */
+export interface ReferenceLine {
+  lineNum: number;
+  text: string;
+  kind: ReferenceKind;
+  date: Date | null;
+}
+
+export interface ReferenceGroup<E> {
+  entry: E;
+  lines: ReferenceLine[];
+}
+
+export interface ReferenceFilters {
+  hideCompleted: boolean;
+  /** Hide dated references older than this many days; null shows everything. */
+  maxAgeDays: number | null;
+}
+
+export interface OrganizedReferences<E> {
+  /** Open tasks, grouped by source note. */
+  openTasks: ReferenceGroup<E>[];
+  /** Everything else (plain text, and done/cancelled/scheduled tasks when shown), grouped by source note. */
+  other: ReferenceGroup<E>[];
+  /** References dropped by the filters. */
+  hidden: number;
+}
+
+export const DEFAULT_REFERENCE_MAX_AGE_DAYS = 90;
+
+const MENTION_RE = /(?:^|(?<=\s))@[A-Za-z_][A-Za-z0-9_/\-&]*/g;
+const H1_RE = /^#\s/;
+const HEADING_RE = /^#{1,6}\s+(.*)$/;
+const TASK_MARKER_RE = /^\s*[-+] (?:\[([ x\->])\] )?/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Mentions tracked by a note: those on the first line after the H1 (line 2 of a plain note).
+ * Duplicates are dropped case-insensitively; a note without an H1 tracks nothing.
+ */
+export function trackedMentions(text: string): string[] {
+  const lines = text.split('\n');
+  const h1 = lines.findIndex((l) => H1_RE.test(l));
+  if (h1 < 0 || h1 + 1 >= lines.length) return [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const m of lines[h1 + 1].matchAll(MENTION_RE)) {
+    const key = m[0].toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(m[0]);
+  }
+  return out;
+}
+
+function validDate(y: number, monthIndex: number, day: number): Date | null {
+  const d = new Date(y, monthIndex, day);
+  return d.getFullYear() === y && d.getMonth() === monthIndex && d.getDate() === day ? d : null;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Date in a heading line: `## 2026-02-25`, `## 2026/02/25`, `### Feb 25, 2026` or
+ * `### 25 February 2026`, anywhere in the heading text. Null for non-headings or no date.
+ */
+export function parseHeadingDate(line: string): Date | null {
+  const h = line.match(HEADING_RE);
+  if (!h) return null;
+  const text = h[1];
+
+  const iso = text.match(/\b(\d{4})[-/](\d{2})[-/](\d{2})\b/);
+  if (iso) return validDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const mdy = text.match(/\b([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{4})\b/);
+  if (mdy && monthIndex(mdy[1]) >= 0) return validDate(Number(mdy[3]), monthIndex(mdy[1]), Number(mdy[2]));
+
+  const dmy = text.match(/\b(\d{1,2}) ([A-Za-z]{3,9})\.?,? (\d{4})\b/);
+  if (dmy && monthIndex(dmy[2]) >= 0) return validDate(Number(dmy[3]), monthIndex(dmy[2]), Number(dmy[1]));
+
+  return null;
+}
+
+/**
+ * Per-line date from the nearest date heading above. Lines above every date heading get the most
+ * recent heading date (running logs usually put the newest entry on top); with no date headings
+ * every line is null.
+ */
+export function lineDatesFromHeadings(lines: string[]): (Date | null)[] {
+  const headingDates = lines.map(parseHeadingDate);
+  let newest: Date | null = null;
+  for (const d of headingDates) {
+    if (d && (!newest || d > newest)) newest = d;
+  }
+  const out: (Date | null)[] = [];
+  let current: Date | null = newest;
+  for (let i = 0; i < lines.length; i++) {
+    if (headingDates[i]) current = headingDates[i];
+    out.push(current);
+  }
+  return out;
+}
+
+/** Open task / checklist item, closed one (done, cancelled or scheduled away), or plain text. */
+export function referenceKind(text: string): ReferenceKind {
+  const m = text.match(TASK_MARKER_RE);
+  if (!m) return 'text';
+  return (m[1] ?? ' ') === ' ' ? 'open' : 'closed';
+}
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/**
+ * Apply the pane filters and split references into open tasks and everything else, keeping the
+ * source-note order of `groups` and the line order within each note.
+ */
+export function organizeReferences<E>(
+  groups: ReferenceGroup<E>[],
+  filters: ReferenceFilters,
+  now: Date = new Date(),
+): OrganizedReferences<E> {
+  let cutoff: Date | null = null;
+  if (filters.maxAgeDays !== null) {
+    cutoff = startOfDay(now);
+    cutoff.setDate(cutoff.getDate() - filters.maxAgeDays);
+  }
+
+  const openTasks: ReferenceGroup<E>[] = [];
+  const other: ReferenceGroup<E>[] = [];
+  let hidden = 0;
+  for (const group of groups) {
+    const open: ReferenceLine[] = [];
+    const rest: ReferenceLine[] = [];
+    for (const line of group.lines) {
+      const tooOld = cutoff !== null && line.date !== null && startOfDay(line.date) < cutoff;
+      if (tooOld || (filters.hideCompleted && line.kind === 'closed')) {
+        hidden++;
+        continue;
+      }
+      (line.kind === 'open' ? open : rest).push(line);
+    }
+    if (open.length > 0) openTasks.push({ entry: group.entry, lines: open });
+    if (rest.length > 0) other.push({ entry: group.entry, lines: rest });
+  }
+  return { openTasks, other, hidden };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  archiveMentionInText,
+  deleteMentionInText,
+  isArchivedMention,
+  isValidMention,
+  normalizeMentionInput,
+  renameMentionInText,
+} from './mention-rename';
+
+describe('renameMentionInText', () => {
+  it('renames every occurrence case-insensitively', () => {
+    const text = '# Sync\n- [ ] ask @Nash about Q3\n@nash and @NASH agreed\nno mention here';
+    const out = renameMentionInText(text, '@Nash', '@NashCooper');
+    expect(out.text).toBe('# Sync\n- [ ] ask @NashCooper about Q3\n@NashCooper and @NashCooper agreed\nno mention here');
+    expect(out.changes.map((c) => c.lineNum)).toEqual([2, 3]);
+    expect(out.changes[0].before).toBe('- [ ] ask @Nash about Q3');
+  });
+
+  it('respects mention boundaries', () => {
+    const text = '@NashCooper @Nash/team email@Nash.com (@Nash) @Nash, @Nash.';
+    const out = renameMentionInText(text, '@Nash', '@Nate');
+    expect(out.text).toBe('@NashCooper @Nash/team email@Nash.com (@Nash) @Nate, @Nate.');
+  });
+
+  it('returns the same string when nothing matches', () => {
+    const text = '- [ ] call @Ann';
+    const out = renameMentionInText(text, '@Nash', '@Nate');
+    expect(out.text).toBe(text);
+    expect(out.changes).toEqual([]);
+  });
+});
+
+describe('mention input', () => {
+  it('normalizes and validates new names', () => {
+    expect(normalizeMentionInput(' NashCooper ')).toBe('@NashCooper');
+    expect(isValidMention('@team/Design')).toBe(true);
+    expect(isValidMention('@Nash Cooper')).toBe(false);
+    expect(isValidMention('@1st')).toBe(false);
+  });
+});
+
+describe('deleteMentionInText / archiveMentionInText', () => {
+  const text = '- [ ] sync with @AlexMann\n@alexmann owes @AlexManning a reply';
+
+  it('keeps the name as plain text when deleting', () => {
+    expect(deleteMentionInText(text, '@AlexMann').text).toBe('- [ ] sync with AlexMann\nalexmann owes @AlexManning a reply');
+  });
+
+  it('moves occurrences under @_old/ keeping their casing', () => {
+    const out = archiveMentionInText(text, '@AlexMann');
+    expect(out.text).toBe('- [ ] sync with @_old/AlexMann\n@_old/alexmann owes @AlexManning a reply');
+    expect(out.changes).toHaveLength(2);
+    expect(isArchivedMention('@_old/AlexMann')).toBe(true);
+    expect(isArchivedMention('@AlexMann')).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Global @mention rename / delete / archive: pure text rewriting with the same boundary rules as the note index
+ * (`MENTION_RE`): a mention starts at line start or after whitespace and ends before any
+ * character outside `[A-Za-z0-9_/\-&]`, so renaming `@Nash` leaves `@NashCooper` and
+ * `@Nash/team` alone. Matching is case-insensitive.
+ */
+
+/** One rewritten line, 1-based. */
+export interface LineChange {
+  lineNum: number;
+  before: string;
+  after: string;
+}
+
+export interface TextRewrite {
+  text: string;
+  changes: LineChange[];
+}
+
+/** Prefix that `groupMentions` in sidebar.ts shows as the `_old` group. */
+export const ARCHIVED_MENTION_PREFIX = '@_old/';
+
+const VALID_MENTION_RE = /^@[A-Za-z_][A-Za-z0-9_/\-&]*$/;
+
+/** True for a well-formed mention such as `@NashCooper` or `@team/Design`. */
+export function isValidMention(mention: string): boolean {
+  return VALID_MENTION_RE.test(mention);
+}
+
+/** Normalize user input to a mention: trims and adds the leading `@` when missing. */
+export function normalizeMentionInput(raw: string): string {
+  const t = raw.trim();
+  return t.startsWith('@') ? t : `@${t}`;
+}
+
+/** Matcher for every occurrence of `mention` (global, case-insensitive). */
+export function mentionOccurrenceRegExp(mention: string): RegExp {
+  const escaped = mention.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|(?<=\\s))${escaped}(?![A-Za-z0-9_/\\-&])`, 'gi');
+}
+
+/**
+ * Replace every occurrence of `mention` with `replace(occurrence)` (the occurrence keeps its
+ * own casing). Returns the original string (same reference) and no changes when nothing matched.
+ */
+export function rewriteMentionInText(
+  text: string,
+  mention: string,
+  replace: (occurrence: string) => string,
+): TextRewrite {
+  const re = mentionOccurrenceRegExp(mention);
+  const lines = text.split('\n');
+  const changes: LineChange[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const before = lines[i];
+    const after = before.replace(re, replace);
+    if (after !== before) {
+      lines[i] = after;
+      changes.push({ lineNum: i + 1, before, after });
+    }
+  }
+  return changes.length > 0 ? { text: lines.join('\n'), changes } : { text, changes };
+}
+
+/** Replace every occurrence of `from` with `to`. */
+export function renameMentionInText(text: string, from: string, to: string): TextRewrite {
+  return rewriteMentionInText(text, from, () => to);
+}
+
+/** Drop the `@` from every occurrence, leaving the name as plain text (`@AlexMann` → `AlexMann`). */
+export function deleteMentionInText(text: string, mention: string): TextRewrite {
+  return rewriteMentionInText(text, mention, (occurrence) => occurrence.slice(1));
+}
+
+/** Move every occurrence under `@_old/` (`@AlexMann` → `@_old/AlexMann`). */
+export function archiveMentionInText(text: string, mention: string): TextRewrite {
+  return rewriteMentionInText(text, mention, (occurrence) => `${ARCHIVED_MENTION_PREFIX}${occurrence.slice(1)}`);
+}
+
+/** True when the mention is already under `@_old/`. */
+export function isArchivedMention(mention: string): boolean {
+  return mention.toLowerCase().startsWith(ARCHIVED_MENTION_PREFIX.toLowerCase());
+}
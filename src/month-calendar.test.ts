@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildMonthRows, collectDayMarks, type DayMarkSource } from './month-calendar';
+
+describe('buildMonthRows', () => {
+  it('lays out a Sunday-start month with ISO week numbers', () => {
+    // October 2026 starts on a Thursday
+    const rows = buildMonthRows(2026, 9, 'sunday');
+    expect(rows).toHaveLength(5);
+    expect(rows[0].days.map((d) => d?.getDate() ?? null)).toEqual([null, null, null, null, 1, 2, 3]);
+    expect(rows[0].week).toEqual({ year: 2026, week: 40 });
+    expect(rows[4].days.map((d) => d?.getDate() ?? null)).toEqual([25, 26, 27, 28, 29, 30, 31]);
+  });
+
+  it('uses the ISO week-year at a year boundary', () => {
+    const rows = buildMonthRows(2027, 0, 'monday');
+    expect(rows[0].days.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(rows[0].week).toEqual({ year: 2026, week: 53 });
+    expect(rows[1].week).toEqual({ year: 2027, week: 1 });
+  });
+});
+
+describe('collectDayMarks', () => {
+  const entry = (over: Partial<DayMarkSource>): DayMarkSource => ({
+    kind: 'project',
+    date: null,
+    isTrashed: false,
+    openTaskCount: 0,
+    openScheduledDates: [],
+    ...over,
+  });
+
+  it('marks existing notes, open tasks and past-due schedules', () => {
+    const marks = collectDayMarks([
+      entry({ kind: 'daily', date: new Date(2026, 9, 12) }),
+      entry({ kind: 'daily', date: new Date(2026, 9, 19), openTaskCount: 2 }),
+      entry({ openScheduledDates: ['2026-10-05', '2026-10-25'] }),
+      entry({ kind: 'daily', date: new Date(2026, 9, 1), isTrashed: true, openTaskCount: 1 }),
+    ], new Date(2026, 9, 19));
+    expect(marks.get('2026-10-12')).toEqual({ hasNote: true, hasOpenTasks: false, hasOverdue: false });
+    expect(marks.get('2026-10-19')).toEqual({ hasNote: true, hasOpenTasks: true, hasOverdue: false });
+    expect(marks.get('2026-10-05')).toEqual({ hasNote: false, hasOpenTasks: false, hasOverdue: true });
+    expect(marks.has('2026-10-25')).toBe(false);
+    expect(marks.has('2026-10-01')).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Sidebar month calendar model: the week rows of a month (same layout as the schedule picker in
+ * task-context-menu.ts) and per-day marks from the note index. Rendering lives in sidebar-calendar.ts.
+ */
+
+import type { CalendarNoteKind } from './calendar-notes';
+import { formatISODate, isoWeekRefForRowContaining, startOfDisplayWeek } from './task-schedule';
+
+export interface MonthRow {
+  /** ISO week of the row (opens the weekly note). */
+  week: { year: number; week: number };
+  /** Seven cells; null pads days outside the month. */
+  days: (Date | null)[];
+}
+
+export interface DayMark {
+  /** A `Calendar/YYYYMMDD.txt` note exists. */
+  hasNote: boolean;
+  /** The day's note has open tasks. */
+  hasOpenTasks: boolean;
+  /** A past day that open tasks are still scheduled to (`>YYYY-MM-DD`) somewhere. */
+  hasOverdue: boolean;
+}
+
+/** Index facts the marks are computed from (a subset of `NoteEntry`). */
+export interface DayMarkSource {
+  kind: 'project' | CalendarNoteKind;
+  date: Date | null;
+  isTrashed: boolean;
+  openTaskCount: number;
+  openScheduledDates: string[];
+}
+
+/** Week rows for `month` (0-based) of `year`. */
+export function buildMonthRows(year: number, month: number, weekStartsOn: 'sunday' | 'monday'): MonthRow[] {
+  const first = new Date(year, month, 1, 12, 0, 0);
+  const rows: MonthRow[] = [];
+  let rowStart = startOfDisplayWeek(first, weekStartsOn);
+  while (rows.length === 0 || rowStart.getMonth() === month) {
+    const days: (Date | null)[] = [];
+    for (let c = 0; c < 7; c++) {
+      const d = new Date(rowStart.getFullYear(), rowStart.getMonth(), rowStart.getDate() + c, 12, 0, 0);
+      days.push(d.getMonth() === month ? d : null);
+    }
+    rows.push({ week: isoWeekRefForRowContaining(rowStart, weekStartsOn), days });
+    rowStart = new Date(rowStart.getFullYear(), rowStart.getMonth(), rowStart.getDate() + 7, 12, 0, 0);
+  }
+  return rows;
+}
+
+/** Marks keyed by `YYYY-MM-DD`; days without any mark are absent. Trashed notes are ignored. */
+export function collectDayMarks(entries: readonly DayMarkSource[], today: Date = new Date()): Map<string, DayMark> {
+  const todayIso = formatISODate(today);
+  const marks = new Map<string, DayMark>();
+  const mark = (iso: string): DayMark => {
+    let m = marks.get(iso);
+    if (!m) {
+      m = { hasNote: false, hasOpenTasks: false, hasOverdue: false };
+      marks.set(iso, m);
+    }
+    return m;
+  };
+
+  for (const e of entries) {
+    if (e.isTrashed) continue;
+    if (e.kind === 'daily' && e.date) {
+      const m = mark(formatISODate(e.date));
+      m.hasNote = true;
+      if (e.openTaskCount > 0) m.hasOpenTasks = true;
+    }
+    for (const iso of e.openScheduledDates) {
+      // ISO strings compare in date order
+      if (iso < todayIso) mark(iso).hasOverdue = true;
+    }
+  }
+  return marks;
+}
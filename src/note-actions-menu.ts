@@ -0,0 +1,108 @@
+/**
+ * Toolbar note menu (⋯ button): note-level task actions. On daily notes, move every open task to
+ * tomorrow, next week or a chosen day; on any note, move done and cancelled tasks to the bottom.
+ * main.ts does the work (note-task-actions.ts has the line transforms).
+ */
+
+import { appendChooseDateRow, appendScheduleLine, dismissTaskContextMenu } from './task-context-menu';
+import {
+  formatScheduleMenuDate,
+  markdownScheduleDateTag,
+  markdownScheduleWeekTag,
+  nextIsoWeekRef,
+  type ScheduleTarget,
+} from './task-schedule';
+
+export interface NoteActionsHandlers {
+  /** Open tasks can be moved only off daily notes. */
+  canMoveOpenTasks: () => boolean;
+  /** False while no note is in the editor (search results, folder index). */
+  hasNote: () => boolean;
+  onMoveOpenTasks: (target: ScheduleTarget) => void;
+  onMoveDoneToBottom: () => void;
+}
+
+// Closes the open menu and drops its document listeners
+let dismissOpenMenu: (() => void) | null = null;
+
+export function wireNoteActionsMenu(handlers: NoteActionsHandlers): void {
+  const button = document.getElementById('note-actions');
+  if (!button) return;
+  button.addEventListener('click', (e) => {
+    e.stopPropagation();
+    if (dismissOpenMenu) {
+      dismissOpenMenu();
+      return;
+    }
+    showNoteActionsMenu(button, handlers);
+  });
+}
+
+function appendHeading(menu: HTMLElement, text: string) {
+  const heading = document.createElement('div');
+  heading.className = 'task-context-menu-heading';
+  heading.textContent = text;
+  menu.appendChild(heading);
+}
+
+function showNoteActionsMenu(anchor: HTMLElement, handlers: NoteActionsHandlers) {
+  dismissTaskContextMenu();
+  const menu = document.createElement('div');
+  menu.className = 'task-context-menu task-context-menu--with-schedule';
+  menu.setAttribute('role', 'menu');
+
+  const dismiss = () => {
+    menu.remove();
+    dismissOpenMenu = null;
+    document.removeEventListener('mousedown', onDocDown, true);
+    document.removeEventListener('keydown', onKey, true);
+  };
+  const onDocDown = (e: MouseEvent) => {
+    if (!menu.contains(e.target as Node) && !anchor.contains(e.target as Node)) dismiss();
+  };
+  const onKey = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') dismiss();
+  };
+  const moveOpen = (target: ScheduleTarget) => {
+    dismiss();
+    handlers.onMoveOpenTasks(target);
+  };
+
+  if (handlers.canMoveOpenTasks()) {
+    appendHeading(menu, 'Move open tasks');
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    appendScheduleLine(menu, 'Tomorrow', markdownScheduleDateTag(tomorrow), `(${formatScheduleMenuDate(tomorrow)})`, () =>
+      moveOpen({ kind: 'date', date: tomorrow }),
+    );
+    const next = nextIsoWeekRef();
+    appendScheduleLine(menu, 'Next week', markdownScheduleWeekTag(next.year, next.week), undefined, () =>
+      moveOpen({ kind: 'week', year: next.year, week: next.week }),
+    );
+    appendChooseDateRow(menu, moveOpen);
+    const divider = document.createElement('div');
+    divider.className = 'task-context-menu-divider';
+    menu.appendChild(divider);
+  }
+
+  const moveDone = document.createElement('button');
+  moveDone.type = 'button';
+  moveDone.className = 'task-context-menu-item';
+  moveDone.setAttribute('role', 'menuitem');
+  moveDone.textContent = 'Move done tasks to bottom';
+  moveDone.disabled = !handlers.hasNote();
+  moveDone.addEventListener('click', () => {
+    dismiss();
+    handlers.onMoveDoneToBottom();
+  });
+  menu.appendChild(moveDone);
+
+  document.body.appendChild(menu);
+  dismissOpenMenu = dismiss;
+  const rect = anchor.getBoundingClientRect();
+  const width = menu.getBoundingClientRect().width;
+  menu.style.left = `${Math.max(8, Math.min(rect.right - width, window.innerWidth - width - 8))}px`;
+  menu.style.top = `${rect.bottom + 4}px`;
+  document.addEventListener('mousedown', onDocDown, true);
+  document.addEventListener('keydown', onKey, true);
+}
@@ -1,29 +1,61 @@
 /**
- * Note index — scans the NotePlan notes directory to build an in-memory
- * lookup for link resolution, backlinks, mentions, and autocomplete.
+ * Note index — scans the NotePlan notes and calendar directories to build an
+ * in-memory lookup for link resolution, backlinks, mentions, and autocomplete.
+ * Calendar notes (daily/weekly) are titled by their date and never resolve wiki-links.
  *
  * Link resolution follows NotePlan conventions:
  *   1. Primary: match by filename (minus .txt), case-insensitive
  *   2. Fallback: match by H1 title, case-insensitive
  *   3. Active notes win over archived/trashed duplicates
+ *
+ * Parsed content is cached in the app data dir keyed by path + mtime + size, so a
+ * rebuild only re-reads files that changed since the last run.
  */
 
-import { readDir, readTextFile, BaseDirectory } from '@tauri-apps/plugin-fs';
+import { readDir, readTextFile, writeTextFile, mkdir, stat, BaseDirectory } from '@tauri-apps/plugin-fs';
+import { appDataDir, join } from '@tauri-apps/api/path';
+import { calendarNoteTitle, parseCalendarFilename, type CalendarNoteKind } from './calendar-notes';
 import { isChecklistListLineText } from './live-preview';
+import { lineDatesFromHeadings, referenceKind, type ReferenceGroup, type ReferenceLine } from './mention-references';
+import { collectBlockIds } from './synced-lines';
+import { lineMatchesQuery, noteMayMatchQuery, type SearchQuery } from './text-search';
 
 const NOTEPLAN_BASE = 'Library/Containers/co.noteplan.NotePlan-setapp/Data/Library/Application Support/co.noteplan.NotePlan-setapp';
+const NOTES_DIR = `${NOTEPLAN_BASE}/Notes`;
+const CALENDAR_DIR = `${NOTEPLAN_BASE}/Calendar`;
+
+const CACHE_FILENAME = 'note-index-cache.json';
+// Bump when ParsedContent changes shape so stale caches are discarded
+const CACHE_VERSION = 2;
+const CACHE_SAVE_DELAY_MS = 2000;
 
 // --- Types ---
 
+export type NoteKind = 'project' | CalendarNoteKind;
+
 export interface NoteEntry {
   filename: string;
+  /** H1 or filename for project notes; the formatted date for calendar notes. */
   title: string;
+  kind: NoteKind;
+  /** Day of a daily note, Monday of a weekly note; null for project notes. */
+  date: Date | null;
+  /** Last modification time (ms since epoch) as last read or written; null if unknown. */
+  mtime: number | null;
   relPath: string;
   isArchived: boolean;
   isTrashed: boolean;
   outgoingLinks: string[];
   mentions: string[];
   hashtags: string[];
+  /** Synced-line `^blockid`s (without the caret) present in the note. */
+  blockIds: string[];
+  /** True when some line carries a `>today` carry-forward tag. */
+  hasTodayTag: boolean;
+  /** Open tasks and checklist items in the note. */
+  openTaskCount: number;
+  /** `YYYY-MM-DD` dates that open tasks in the note are scheduled to (`>YYYY-MM-DD`). */
+  openScheduledDates: string[];
 }
 
 export interface BacklinkRef {
@@ -45,12 +77,31 @@ function linkKey(filename: string): string {
 const WIKILINK_RE = /\[\[(.+?)\]\]/g;
 const MENTION_RE = /(?:^|(?<=\s))@([A-Za-z_][A-Za-z0-9_/\-&]*)/g;
 const HASHTAG_RE = /(?:^|(?<=\s))#([A-Za-z][A-Za-z0-9_/\-&]*)/gm;
+const TODAY_TAG_RE = /(?:^|\s)>today(?![A-Za-z0-9_-])/im;
+// `- [ ] x` / `+ [ ] x` or the bracketless `- x` shortcut; done, cancelled and `[>]` lines excluded
+const OPEN_TASK_RE = /^\s*[-+] (?!\[[x\->]\])\S/;
+const SCHEDULED_DATE_RE = /(?:^|\s)>(\d{4}-\d{2}-\d{2})(?=\s|$)/g;
 
 interface ParsedContent {
   title: string | null;
   outgoingLinks: string[];
   mentions: string[];
   hashtags: string[];
+  blockIds: string[];
+  hasTodayTag: boolean;
+  openTaskCount: number;
+  openScheduledDates: string[];
+}
+
+interface CachedFile {
+  mtime: number;
+  size: number;
+  parsed: ParsedContent;
+}
+
+interface CacheFileData {
+  version: number;
+  files: Record<string, CachedFile>;
 }
 
 function parseNoteContent(text: string): ParsedContent {
@@ -81,7 +132,98 @@ function parseNoteContent(text: string): ParsedContent {
     }
   }
 
-  return { title, outgoingLinks, mentions, hashtags };
+  let openTaskCount = 0;
+  const openScheduledDates: string[] = [];
+  for (const line of text.split('\n')) {
+    if (!OPEN_TASK_RE.test(line)) continue;
+    openTaskCount++;
+    for (const m of line.matchAll(SCHEDULED_DATE_RE)) {
+      if (!openScheduledDates.includes(m[1])) openScheduledDates.push(m[1]);
+    }
+  }
+
+  return {
+    title,
+    outgoingLinks,
+    mentions,
+    hashtags,
+    blockIds: collectBlockIds(text),
+    hasTodayTag: TODAY_TAG_RE.test(text),
+    openTaskCount,
+    openScheduledDates,
+  };
+}
+
+function entryFromParsed(
+  relPath: string,
+  filename: string,
+  parsed: ParsedContent,
+  flags: { isArchived?: boolean; isTrashed?: boolean },
+  mtime: number | null,
+): NoteEntry {
+  const calendar = relPath.startsWith(`${CALENDAR_DIR}/`) ? parseCalendarFilename(filename) : null;
+  return {
+    filename,
+    title: calendar ? calendarNoteTitle(calendar) : parsed.title || filename.replace(/\.txt$/, ''),
+    kind: calendar ? calendar.kind : 'project',
+    date: calendar ? calendar.date : null,
+    mtime,
+    relPath,
+    isArchived: !!flags.isArchived,
+    isTrashed: !!flags.isTrashed,
+    outgoingLinks: parsed.outgoingLinks,
+    mentions: parsed.mentions,
+    hashtags: parsed.hashtags,
+    blockIds: parsed.blockIds,
+    hasTodayTag: parsed.hasTodayTag,
+    openTaskCount: parsed.openTaskCount,
+    openScheduledDates: parsed.openScheduledDates,
+  };
+}
+
+function fileBasename(relPath: string): string {
+  return relPath.slice(relPath.lastIndexOf('/') + 1);
+}
+
+/** `.txt` under `Notes/`, or a calendar note filename directly in `Calendar/`. */
+function isIndexablePath(relPath: string): boolean {
+  if (relPath.startsWith(`${NOTES_DIR}/`)) return relPath.endsWith('.txt');
+  if (!relPath.startsWith(`${CALENDAR_DIR}/`)) return false;
+  const rest = relPath.slice(CALENDAR_DIR.length + 1);
+  return !rest.includes('/') && parseCalendarFilename(rest) !== null;
+}
+
+function newEntryForPath(relPath: string, parsed: ParsedContent, mtime: number | null): NoteEntry {
+  return entryFromParsed(relPath, fileBasename(relPath), parsed, {
+    isArchived: relPath.includes('/@Archive/'),
+    isTrashed: relPath.includes('/@Trash/'),
+  }, mtime);
+}
+
+function applyParsed(entry: NoteEntry, parsed: ParsedContent, mtime: number | null) {
+  entry.mtime = mtime;
+  if (entry.kind === 'project') entry.title = parsed.title || entry.filename.replace(/\.txt$/, '');
+  entry.outgoingLinks = parsed.outgoingLinks;
+  entry.mentions = parsed.mentions;
+  entry.hashtags = parsed.hashtags;
+  entry.blockIds = parsed.blockIds;
+  entry.hasTodayTag = parsed.hasTodayTag;
+  entry.openTaskCount = parsed.openTaskCount;
+  entry.openScheduledDates = parsed.openScheduledDates;
+}
+
+/**
+ * Result ordering for backlinks and line search: project notes by title, then calendar
+ * notes newest first, with archived (then trashed) notes after everything active.
+ */
+function compareEntries(a: NoteEntry, b: NoteEntry): number {
+  if (a.isTrashed !== b.isTrashed) return a.isTrashed ? 1 : -1;
+  if (a.isArchived !== b.isArchived) return a.isArchived ? 1 : -1;
+  const aCal = a.kind !== 'project';
+  const bCal = b.kind !== 'project';
+  if (aCal !== bCal) return aCal ? 1 : -1;
+  if (aCal && bCal) return b.date!.getTime() - a.date!.getTime();
+  return a.title.localeCompare(b.title);
 }
 
 // --- Index ---
@@ -92,21 +234,136 @@ export class NoteIndex {
   private _byRelPath = new Map<string, NoteEntry>();
   // linkKey (lowercase) -> relPaths of notes that contain [[linkKey]] as outgoing link
   private _backlinkIndex = new Map<string, string[]>();
+  // blockId -> relPaths of notes containing a synced line with that ID
+  private _byBlockId = new Map<string, string[]>();
+  // relPath -> parsed content with the mtime/size it was read at (persisted between runs)
+  private _cache = new Map<string, CachedFile>();
+  private _cacheLoaded = false;
+  private _cacheDirty = false;
+  private _cacheSaveTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _reparsed = 0;
 
   get entries(): readonly NoteEntry[] {
     return this._entries;
   }
 
   async build(): Promise<void> {
-    const notesPath = `${NOTEPLAN_BASE}/Notes`;
     const t0 = performance.now();
-    this._entries = await this.scanDirectory(notesPath);
+    if (!this._cacheLoaded) await this.loadCache();
+    this._reparsed = 0;
+    const seen = new Set<string>();
+    const [entries, calendarEntries] = await Promise.all([
+      this.scanDirectory(NOTES_DIR, seen),
+      this.scanCalendar(CALENDAR_DIR, seen),
+    ]);
+    this._entries = [...entries, ...calendarEntries];
     this.rebuildMaps();
-    console.log(`[daymark] Note index: ${this._entries.length} notes in ${Math.round(performance.now() - t0)}ms`);
+
+    for (const relPath of this._cache.keys()) {
+      if (!seen.has(relPath)) {
+        this._cache.delete(relPath);
+        this._cacheDirty = true;
+      }
+    }
+    if (this._cacheDirty) void this.saveCache();
+
+    console.log(
+      `[daymark] Note index: ${entries.length} notes, ${calendarEntries.length} calendar notes (${this._reparsed} re-parsed) in ${Math.round(performance.now() - t0)}ms`,
+    );
+  }
+
+  /**
+   * Re-read a single file after it changed outside the editor (or was created, moved or deleted),
+   * adding, updating or dropping its entry without rescanning the whole tree.
+   */
+  async invalidate(relPath: string): Promise<void> {
+    await this.invalidateMany([relPath]);
+  }
+
+  /** `invalidate` for several files at once (a folder added, moved or deleted), rebuilding the maps once. */
+  async invalidateMany(relPaths: Iterable<string>): Promise<void> {
+    const paths = [...new Set(relPaths)];
+    if (paths.length === 0) return;
+    for (const relPath of paths) this._cache.delete(relPath);
+    const files = await Promise.all(paths.map((relPath) => this.readParsed(relPath)));
+    const removed = new Set<NoteEntry>();
+    paths.forEach((relPath, i) => {
+      const file = files[i];
+      const existing = this._byRelPath.get(relPath);
+      if (!file) {
+        if (existing) removed.add(existing);
+      } else if (existing) {
+        applyParsed(existing, file.parsed, file.mtime || null);
+      } else if (isIndexablePath(relPath)) {
+        this._entries.push(newEntryForPath(relPath, file.parsed, file.mtime || null));
+      }
+    });
+    if (removed.size > 0) this._entries = this._entries.filter((e) => !removed.has(e));
+
+    this.rebuildMaps();
+    this.scheduleCacheSave();
+  }
+
+  private async loadCache(): Promise<void> {
+    this._cacheLoaded = true;
+    try {
+      const path = await join(await appDataDir(), CACHE_FILENAME);
+      const data = JSON.parse(await readTextFile(path)) as CacheFileData;
+      if (data.version !== CACHE_VERSION || !data.files) return;
+      this._cache = new Map(Object.entries(data.files));
+    } catch {
+      // No cache yet (first run) or unreadable — everything gets parsed
+    }
+  }
+
+  private async saveCache(): Promise<void> {
+    if (this._cacheSaveTimeout) {
+      clearTimeout(this._cacheSaveTimeout);
+      this._cacheSaveTimeout = null;
+    }
+    this._cacheDirty = false;
+    const data: CacheFileData = { version: CACHE_VERSION, files: Object.fromEntries(this._cache) };
+    try {
+      const dir = await appDataDir();
+      await mkdir(dir, { recursive: true });
+      await writeTextFile(await join(dir, CACHE_FILENAME), JSON.stringify(data));
+    } catch (err) {
+      console.error('[daymark] Note index cache write failed:', err);
+    }
+  }
+
+  private scheduleCacheSave() {
+    this._cacheDirty = true;
+    if (this._cacheSaveTimeout) clearTimeout(this._cacheSaveTimeout);
+    this._cacheSaveTimeout = setTimeout(() => void this.saveCache(), CACHE_SAVE_DELAY_MS);
+  }
+
+  /**
+   * Parsed content (with mtime/size) for one file: from the cache when mtime and size still match, otherwise
+   * read and parsed (and the cache updated). Null when the file is missing or unreadable.
+   */
+  private async readParsed(relPath: string): Promise<CachedFile | null> {
+    try {
+      const info = await stat(relPath, { baseDir: BaseDirectory.Home });
+      const mtime = info.mtime ? info.mtime.getTime() : 0;
+      const cached = this._cache.get(relPath);
+      if (cached && mtime !== 0 && cached.mtime === mtime && cached.size === info.size) {
+        return cached;
+      }
+      const text = await readTextFile(relPath, { baseDir: BaseDirectory.Home });
+      const file = { mtime, size: info.size, parsed: parseNoteContent(text) };
+      this._cache.set(relPath, file);
+      this._cacheDirty = true;
+      this._reparsed++;
+      return file;
+    } catch {
+      return null;
+    }
   }
 
   private async scanDirectory(
     relDir: string,
+    seen: Set<string>,
     flags: { isArchived?: boolean; isTrashed?: boolean } = {},
   ): Promise<NoteEntry[]> {
     let dirEntries;
@@ -137,22 +394,9 @@ export class NoteIndex {
     // Read all files in this directory concurrently
     const fileResults = await Promise.all(
       files.map(async (f) => {
-        try {
-          const text = await readTextFile(f.path, { baseDir: BaseDirectory.Home });
-          const parsed = parseNoteContent(text);
-          return {
-            filename: f.name,
-            title: parsed.title || f.name.replace(/\.txt$/, ''),
-            relPath: f.path,
-            isArchived: !!flags.isArchived,
-            isTrashed: !!flags.isTrashed,
-            outgoingLinks: parsed.outgoingLinks,
-            mentions: parsed.mentions,
-            hashtags: parsed.hashtags,
-          } as NoteEntry;
-        } catch {
-          return null;
-        }
+        seen.add(f.path);
+        const file = await this.readParsed(f.path);
+        return file ? entryFromParsed(f.path, f.name, file.parsed, flags, file.mtime || null) : null;
       }),
     );
 
@@ -162,7 +406,7 @@ export class NoteIndex {
 
     // Recurse into subdirectories concurrently
     const subdirResults = await Promise.all(
-      subdirs.map((d) => this.scanDirectory(d.path, d.flags)),
+      subdirs.map((d) => this.scanDirectory(d.path, seen, d.flags)),
     );
     for (const children of subdirResults) {
       entries.push(...children);
@@ -171,10 +415,40 @@ export class NoteIndex {
     return entries;
   }
 
+  /** Calendar notes (daily, weekly, monthly, …) in the flat `Calendar/` directory; other files are skipped. */
+  private async scanCalendar(relDir: string, seen: Set<string>): Promise<NoteEntry[]> {
+    let dirEntries;
+    try {
+      dirEntries = await readDir(relDir, { baseDir: BaseDirectory.Home });
+    } catch {
+      return [];
+    }
+    const files = dirEntries.filter((e) => !e.isDirectory && parseCalendarFilename(e.name));
+    const results = await Promise.all(files.map(async (f) => {
+      const path = `${relDir}/${f.name}`;
+      seen.add(path);
+      const file = await this.readParsed(path);
+      return file ? entryFromParsed(path, f.name, file.parsed, {}, file.mtime || null) : null;
+    }));
+    return results.filter((e): e is NoteEntry => e !== null);
+  }
+
+  private addBlockIdRefs(relPath: string, ids: string[]) {
+    for (const id of ids) {
+      let refs = this._byBlockId.get(id);
+      if (!refs) {
+        refs = [];
+        this._byBlockId.set(id, refs);
+      }
+      if (!refs.includes(relPath)) refs.push(relPath);
+    }
+  }
+
   private rebuildMaps() {
     this._byLinkKey.clear();
     this._byRelPath.clear();
     this._backlinkIndex.clear();
+    this._byBlockId.clear();
 
     for (const entry of this._entries) {
       this._byRelPath.set(entry.relPath, entry);
@@ -196,6 +470,8 @@ export class NoteIndex {
         }
         refs.push(entry.relPath);
       }
+
+      this.addBlockIdRefs(entry.relPath, entry.blockIds);
     }
   }
 
@@ -207,14 +483,14 @@ export class NoteIndex {
    *   2. Active note matching by title
    *   3. Archived note matching by filename
    *   4. Archived note matching by title
-   *   Trashed notes are never returned.
+   *   Trashed notes and calendar notes are never returned.
    */
   resolveLink(title: string): NoteEntry | null {
     const key = title.toLowerCase();
 
-    const byFilename = this._byLinkKey.get(key) || [];
+    const byFilename = (this._byLinkKey.get(key) || []).filter((e) => e.kind === 'project');
     const byTitle = this._entries.filter(
-      (e) => e.title.toLowerCase() === key && !byFilename.includes(e),
+      (e) => e.kind === 'project' && e.title.toLowerCase() === key && !byFilename.includes(e),
     );
 
     // Active matches first (filename then title)
@@ -234,7 +510,8 @@ export class NoteIndex {
 
   /**
    * Find all notes that contain a [[link]] pointing to the given note.
-   * Trashed notes are omitted. Active notes are listed before archived (title order within each group).
+   * Trashed notes are omitted. Order: project notes by title, then calendar notes newest first,
+   * then archived notes.
    */
   getBacklinks(relPath: string): NoteEntry[] {
     const entry = this._byRelPath.get(relPath);
@@ -256,15 +533,22 @@ export class NoteIndex {
       .map((p) => this._byRelPath.get(p)!)
       .filter(Boolean)
       .filter((e) => !e.isTrashed)
-      .sort((a, b) => {
-        if (a.isArchived !== b.isArchived) return a.isArchived ? 1 : -1;
-        return a.title.localeCompare(b.title);
-      });
+      .sort(compareEntries);
+  }
+
+  /** The lines in each backlinking note whose `[[link]]` points at `relPath` (backlinks panel rows). */
+  async searchBacklinkLines(relPath: string): Promise<SearchResult[]> {
+    const entry = this._byRelPath.get(relPath);
+    if (!entry) return [];
+    const keys = new Set([linkKey(entry.filename), entry.title.toLowerCase()]);
+    return this.searchLines(this.getBacklinks(relPath), (line) =>
+      [...line.matchAll(WIKILINK_RE)].some((m) => keys.has(m[1].trim().toLowerCase())),
+    );
   }
 
   /**
    * Search notes by title/filename for autocomplete.
-   * Excludes trashed notes. Active notes rank above archived.
+   * Excludes trashed and calendar notes. Active notes rank above archived.
    * Exact matches rank first, then prefix, then substring.
    */
   searchNotes(query: string): NoteEntry[] {
@@ -272,7 +556,7 @@ export class NoteIndex {
     const q = query.toLowerCase();
 
     return this._entries
-      .filter((e) => !e.isTrashed)
+      .filter((e) => !e.isTrashed && e.kind === 'project')
       .filter((e) =>
         e.title.toLowerCase().includes(q)
         || linkKey(e.filename).includes(q),
@@ -418,6 +702,16 @@ export class NoteIndex {
     });
   }
 
+  /** Paths of every note (project or calendar) containing a synced line with this block ID. */
+  getBlockIdPaths(blockId: string): string[] {
+    return [...(this._byBlockId.get(blockId) || [])];
+  }
+
+  /** True when any indexed file already uses this block ID (for collision-free generation). */
+  hasBlockId(blockId: string): boolean {
+    return this._byBlockId.has(blockId);
+  }
+
   /** Look up an entry by its relPath. */
   getEntry(relPath: string): NoteEntry | null {
     return this._byRelPath.get(relPath) || null;
@@ -425,17 +719,21 @@ export class NoteIndex {
 
   /**
    * Update a single entry's content in-place (e.g. after saving).
-   * Re-parses title, outgoing links, mentions, hashtags, then rebuilds maps.
+   * Re-parses title, outgoing links, mentions, hashtags, block IDs, then rebuilds maps.
+   * A calendar note saved for the first time is added as a new entry.
    */
   updateEntry(relPath: string, content: string): void {
-    const existing = this._byRelPath.get(relPath);
-    if (!existing) return;
+    // We just wrote the file; its cached mtime is stale, so let the next build re-read it
+    if (this._cache.delete(relPath)) this.scheduleCacheSave();
 
-    const parsed = parseNoteContent(content);
-    existing.title = parsed.title || existing.filename.replace(/\.txt$/, '');
-    existing.outgoingLinks = parsed.outgoingLinks;
-    existing.mentions = parsed.mentions;
-    existing.hashtags = parsed.hashtags;
+    const existing = this._byRelPath.get(relPath);
+    if (existing) {
+      applyParsed(existing, parseNoteContent(content), Date.now());
+    } else if (relPath.startsWith(`${CALENDAR_DIR}/`) && isIndexablePath(relPath)) {
+      this._entries.push(newEntryForPath(relPath, parseNoteContent(content), Date.now()));
+    } else {
+      return;
+    }
     this.rebuildMaps();
   }
 
@@ -443,19 +741,10 @@ export class NoteIndex {
    * Add a brand new note to the index (e.g. after creating from a wiki-link).
    */
   addEntry(relPath: string, filename: string, content: string): void {
-    const parsed = parseNoteContent(content);
-    const isArchived = relPath.includes('/@Archive/');
-    const isTrashed = relPath.includes('/@Trash/');
-    this._entries.push({
-      filename,
-      title: parsed.title || filename.replace(/\.txt$/, ''),
-      relPath,
-      isArchived,
-      isTrashed,
-      outgoingLinks: parsed.outgoingLinks,
-      mentions: parsed.mentions,
-      hashtags: parsed.hashtags,
-    });
+    this._entries.push(entryFromParsed(relPath, filename, parseNoteContent(content), {
+      isArchived: relPath.includes('/@Archive/'),
+      isTrashed: relPath.includes('/@Trash/'),
+    }, Date.now()));
     this.rebuildMaps();
   }
 
@@ -478,6 +767,47 @@ export class NoteIndex {
     return this.searchLines(candidates, mentionRe);
   }
 
+  /**
+   * Lines mentioning `mention` in active and archived notes, classified and dated for the
+   * reference pane: calendar notes by their filename date, other notes by the nearest date
+   * heading (mention-references.ts).
+   */
+  async searchMentionReferences(mention: string): Promise<ReferenceGroup<NoteEntry>[]> {
+    const mentionLower = mention.toLowerCase();
+    const mentionRe = new RegExp(
+      `(?:^|(?<=\\s))${mention.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![A-Za-z0-9_/\\-&])`,
+      'i',
+    );
+
+    const candidates = this._entries.filter((e) =>
+      !e.isTrashed && e.mentions.some((m) => m.toLowerCase() === mentionLower)
+    );
+
+    const groups: ReferenceGroup<NoteEntry>[] = [];
+    await Promise.all(candidates.map(async (entry) => {
+      try {
+        const lines = (await readTextFile(entry.relPath, { baseDir: BaseDirectory.Home })).split('\n');
+        const headingDates = entry.date ? null : lineDatesFromHeadings(lines);
+        const refs: ReferenceLine[] = [];
+        lines.forEach((line, idx) => {
+          if (!mentionRe.test(line)) return;
+          refs.push({
+            lineNum: idx + 1,
+            text: line,
+            kind: referenceKind(line),
+            date: entry.date ?? headingDates![idx],
+          });
+        });
+        if (refs.length > 0) groups.push({ entry, lines: refs });
+      } catch {
+        // Skip unreadable files
+      }
+    }));
+
+    groups.sort((a, b) => compareEntries(a.entry, b.entry));
+    return groups;
+  }
+
   async searchHashtag(hashtag: string): Promise<SearchResult[]> {
     const hashtagLower = hashtag.toLowerCase();
     const hashtagRe = new RegExp(
@@ -492,7 +822,53 @@ export class NoteIndex {
     return this.searchLines(candidates, hashtagRe);
   }
 
-  private async searchLines(candidates: NoteEntry[], re: RegExp): Promise<SearchResult[]> {
+  /**
+   * Full-text search with the query language in text-search.ts, across project and calendar notes.
+   * Notes are pre-filtered on folder and indexed mentions/hashtags before any file is read.
+   * Trashed notes are only searched when `includeTrash` is set (recovering deleted text).
+   */
+  async searchQuery(query: SearchQuery, options: { includeTrash?: boolean } = {}): Promise<SearchResult[]> {
+    const candidates = this._entries.filter((e) =>
+      (options.includeTrash || !e.isTrashed)
+      && noteMayMatchQuery(query, {
+        path: e.relPath.slice(NOTEPLAN_BASE.length + 1),
+        mentions: e.mentions,
+        hashtags: e.hashtags,
+      }),
+    );
+    return this.searchLines(candidates, (line, entry) => {
+      const noteDate = entry.date ?? (entry.mtime !== null ? new Date(entry.mtime) : null);
+      return lineMatchesQuery(query, line, isChecklistListLineText(line), noteDate);
+    });
+  }
+
+  /**
+   * Open `>today` tasks and checklist items across active notes (carry-forward panel).
+   * Done/cancelled lines are dropped; `[>]` sources still count as open until completed.
+   */
+  async searchTodayTasks(): Promise<SearchResult[]> {
+    const candidates = this._entries.filter((e) => !e.isTrashed && !e.isArchived && e.hasTodayTag);
+    const results = await this.searchLines(candidates, new RegExp(TODAY_TAG_RE.source, 'i'));
+    return results
+      .map((r) => ({
+        entry: r.entry,
+        lines: r.lines.filter((l) => !l.isDone && /^\s*[-+] /.test(l.text)),
+      }))
+      .filter((r) => r.lines.length > 0);
+  }
+
+  /** Open tasks and checklist items in one note (weekly tasks panel); empty if none or not indexed. */
+  async searchOpenTasks(relPath: string): Promise<SearchResult[]> {
+    const entry = this._byRelPath.get(relPath);
+    if (!entry || entry.openTaskCount === 0) return [];
+    return this.searchLines([entry], OPEN_TASK_RE);
+  }
+
+  private async searchLines(
+    candidates: NoteEntry[],
+    match: RegExp | ((line: string, entry: NoteEntry) => boolean),
+  ): Promise<SearchResult[]> {
+    const test = match instanceof RegExp ? (line: string) => match.test(line) : match;
     const results: SearchResult[] = [];
 
     await Promise.all(candidates.map(async (entry) => {
@@ -500,7 +876,7 @@ export class NoteIndex {
         const text = await readTextFile(entry.relPath, { baseDir: BaseDirectory.Home });
         const lines: SearchResult['lines'] = [];
         text.split('\n').forEach((line, idx) => {
-          if (re.test(line)) {
+          if (test(line, entry)) {
             const isDone = /^\s*[-+] \[x\] /.test(line) || /^\s*[-+] \[-\] /.test(line);
             lines.push({
               lineNum: idx + 1,
@@ -518,17 +894,14 @@ export class NoteIndex {
       }
     }));
 
-    results.sort((a, b) => {
-      if (a.entry.isArchived !== b.entry.isArchived) return a.entry.isArchived ? 1 : -1;
-      return a.entry.title.localeCompare(b.entry.title);
-    });
+    results.sort((a, b) => compareEntries(a.entry, b.entry));
 
     return results;
   }
 
   /** The path where a new note would be created (Notes/ root). */
   newNotePath(title: string): string {
-    return `${NOTEPLAN_BASE}/Notes/${title}.txt`;
+    return `${NOTES_DIR}/${title}.txt`;
   }
 }
 
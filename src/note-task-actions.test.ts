@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { moveDoneTasksToBottom, scheduleOpenTasks } from './note-task-actions';
+
+describe('scheduleOpenTasks', () => {
+  it('schedules every open task with its subtasks and collects the synced copies', () => {
+    const lines = [
+      '# Monday',
+      '- [ ] call Sam',
+      '\t- [ ] find number',
+      '- [x] done already',
+      '+ checklist item ^abc123',
+      '* plain bullet',
+      '',
+    ];
+    const ids = ['id0001', 'id0002'];
+    const result = scheduleOpenTasks(lines, { kind: 'date', date: new Date(2026, 9, 20) }, () => ids.shift()!);
+    expect(result.count).toBe(2);
+    expect(result.lines).toEqual([
+      '# Monday',
+      '- [>] call Sam ^id0001 >2026-10-20',
+      '\t- [>] find number ^id0002 >2026-10-20',
+      '- [x] done already',
+      '+ [>] checklist item ^abc123 >2026-10-20',
+      '* plain bullet',
+      '',
+    ]);
+    expect(result.destination).toEqual([
+      '- [ ] call Sam ^id0001 >2026-10-20',
+      '\t- [ ] find number ^id0002 >2026-10-20',
+      '+ [ ] checklist item ^abc123 >2026-10-20',
+    ]);
+  });
+
+  it('writes no copies for >today', () => {
+    const result = scheduleOpenTasks(['- [ ] a', '- b'], { kind: 'today' }, () => 'unused');
+    expect(result.lines).toEqual(['- [>] a >today', '- [>] b >today']);
+    expect(result.destination).toEqual([]);
+  });
+});
+
+describe('moveDoneTasksToBottom', () => {
+  it('adds a Done section at the bottom with the closed tasks and their blocks', () => {
+    const lines = ['# Day', '- [x] shipped', '\t- note', '- [ ] open', '- [-] dropped', '\t- [x] sub stays with parent', ''];
+    expect(moveDoneTasksToBottom(lines)).toEqual({
+      lines: ['# Day', '- [ ] open', '', '## Done', '- [x] shipped', '\t- note', '- [-] dropped', '\t- [x] sub stays with parent', ''],
+      count: 2,
+    });
+  });
+
+  it('appends to an existing Done section and leaves its tasks in place', () => {
+    const lines = ['# Day', '## Done', '- [x] old', '', '## Later', '- [x] new', '- [ ] open'];
+    expect(moveDoneTasksToBottom(lines).lines).toEqual(['# Day', '## Done', '- [x] old', '- [x] new', '', '## Later', '- [ ] open']);
+  });
+
+  it('keeps done subtasks under open parents and changes nothing without closed tasks', () => {
+    const lines = ['- [ ] parent', '\t- [x] child'];
+    expect(moveDoneTasksToBottom(lines)).toEqual({ lines, count: 0 });
+  });
+});
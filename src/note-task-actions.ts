@@ -0,0 +1,122 @@
+/**
+ * Note-level task actions from the toolbar's note menu: schedule every open task of a daily note
+ * to one target (same source/destination lines as the task Schedule menu), and move done and
+ * cancelled tasks into a "Done" section at the bottom. Pure line transforms; main.ts applies
+ * the result as a single editor change so each action is one undo step.
+ */
+
+import { resolveListLineText } from './live-preview';
+import { findBlockId } from './synced-lines';
+import {
+  buildScheduledChildLines,
+  buildScheduledSourceLine,
+  buildSyncedDestinationLine,
+  cleanedTaskBody,
+  indentedChildCount,
+  type ScheduleTarget,
+} from './task-schedule';
+
+export interface ScheduledOpenTasks {
+  /** The note's lines with every open task turned `[>]` with the schedule token. */
+  lines: string[];
+  /** Synced copies, subtasks included, for the target note; empty for `>today`. */
+  destination: string[];
+  count: number;
+}
+
+/**
+ * Schedule every open task and checklist item in `lines` to `target`, each with its indented
+ * block. `mintBlockId` supplies a fresh `^blockid` for tasks and subtasks that have none (dated
+ * targets only).
+ */
+export function scheduleOpenTasks(
+  lines: readonly string[],
+  target: ScheduleTarget,
+  mintBlockId: () => string,
+): ScheduledOpenTasks {
+  const out = [...lines];
+  const destination: string[] = [];
+  let count = 0;
+  for (let i = 0; i < out.length; i++) {
+    const lineText = out[i];
+    const resolved = resolveListLineText(lineText);
+    if (!resolved || (resolved.kind !== 'task' && resolved.kind !== 'checklist')) continue;
+    if (resolved.taskState !== 'open') continue;
+
+    const childCount = indentedChildCount(out, i);
+    const blockId = target.kind === 'today' ? undefined : findBlockId(lineText) ?? mintBlockId();
+    const block = buildScheduledChildLines(
+      out.slice(i + 1, i + 1 + childCount),
+      lineText.match(/^\s*/)?.[0] ?? '',
+      target,
+      mintBlockId,
+    );
+    out.splice(i, 1 + childCount, buildScheduledSourceLine(lineText, 0, resolved, target, blockId), ...block.source);
+    if (blockId) {
+      const body = cleanedTaskBody(lineText, 0, resolved);
+      destination.push(buildSyncedDestinationLine(body, blockId, target, resolved.kind), ...block.destination);
+    }
+    count++;
+    // Subtasks went with their parent
+    i += childCount;
+  }
+  return { lines: out, destination, count };
+}
+
+const DONE_HEADING_RE = /^(#{1,6})\s+Done\s*$/i;
+const HEADING_RE = /^(#{1,6})\s/;
+
+/**
+ * Move top-level done and cancelled tasks (with their indented blocks) to the end of the note's
+ * "Done" section, adding `## Done` at the bottom when the note has none. Tasks already in that
+ * section stay where they are.
+ */
+export function moveDoneTasksToBottom(lines: readonly string[]): { lines: string[]; count: number } {
+  const headingIndex = lines.findIndex((l) => DONE_HEADING_RE.test(l));
+  let sectionEnd = lines.length;
+  if (headingIndex >= 0) {
+    const level = lines[headingIndex].match(DONE_HEADING_RE)![1].length;
+    for (let j = headingIndex + 1; j < lines.length; j++) {
+      const h = lines[j].match(HEADING_RE);
+      if (h && h[1].length <= level) {
+        sectionEnd = j;
+        break;
+      }
+    }
+  }
+
+  const kept: string[] = [];
+  const moved: string[] = [];
+  let insertAt = -1;
+  let count = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (i === sectionEnd) insertAt = kept.length;
+    const inDoneSection = headingIndex >= 0 && i > headingIndex && i < sectionEnd;
+    const resolved = !inDoneSection && /^\S/.test(lines[i]) ? resolveListLineText(lines[i]) : null;
+    const isClosed = resolved?.taskState === 'done' || resolved?.taskState === 'cancelled';
+    if (!resolved || (resolved.kind !== 'task' && resolved.kind !== 'checklist') || !isClosed) {
+      kept.push(lines[i]);
+      continue;
+    }
+    const childCount = indentedChildCount(lines, i);
+    moved.push(...lines.slice(i, i + 1 + childCount));
+    count++;
+    i += childCount;
+  }
+  if (count === 0) return { lines: [...lines], count };
+
+  if (headingIndex >= 0) {
+    if (insertAt < 0) insertAt = kept.length;
+    // Right after the section's last non-blank line
+    while (insertAt > 0 && kept[insertAt - 1].trim() === '') insertAt--;
+    kept.splice(insertAt, 0, ...moved);
+    return { lines: kept, count };
+  }
+
+  const endsWithNewline = kept.length > 1 && kept[kept.length - 1] === '';
+  while (kept.length > 0 && kept[kept.length - 1].trim() === '') kept.pop();
+  if (kept.length > 0) kept.push('');
+  kept.push('## Done', ...moved);
+  if (endsWithNewline) kept.push('');
+  return { lines: kept, count };
+}
@@ -0,0 +1,46 @@
+/**
+ * Drag-from-pane (see KNOWLEDGE § Drag-from-pane): rows in the `>today` panel, the weekly tasks
+ * panel, the @mention reference pane and the backlinks panel carry their source line, and
+ * dropping one on the editor inserts a synced copy (main.ts handles the drop). A row whose drop
+ * was accepted removes itself right away; the next pane render keeps it hidden while the copy's
+ * `^blockid` is in the note.
+ */
+
+export const PANE_LINE_MIME = 'application/x-daymark-line';
+
+export interface DraggedPaneLine {
+  relPath: string;
+  lineNum: number;
+  text: string;
+}
+
+export function makePaneLineDraggable(row: HTMLElement, line: DraggedPaneLine, plainText: string): void {
+  row.draggable = true;
+  row.addEventListener('dragstart', (e) => {
+    if (!e.dataTransfer) return;
+    e.dataTransfer.setData(PANE_LINE_MIME, JSON.stringify(line));
+    e.dataTransfer.setData('text/plain', plainText);
+    e.dataTransfer.effectAllowed = 'copy';
+    row.classList.add('pane-line-dragging');
+  });
+  row.addEventListener('dragend', (e) => {
+    row.classList.remove('pane-line-dragging');
+    if (e.dataTransfer?.dropEffect === 'copy') row.remove();
+  });
+}
+
+/** True while a pane line (not arbitrary text) is being dragged; data is only readable on drop. */
+export function isPaneLineDrag(e: DragEvent): boolean {
+  return !!e.dataTransfer?.types.includes(PANE_LINE_MIME);
+}
+
+export function readDraggedPaneLine(e: DragEvent): DraggedPaneLine | null {
+  const raw = e.dataTransfer?.getData(PANE_LINE_MIME);
+  if (!raw) return null;
+  try {
+    const v = JSON.parse(raw) as DraggedPaneLine;
+    return typeof v.relPath === 'string' && typeof v.lineNum === 'number' && typeof v.text === 'string' ? v : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * @mention reference pane under the editor (see KNOWLEDGE § @Mention reference pane). A note whose
+ * first line after the H1 carries @mentions gets one collapsible section per mention: open tasks
+ * first, then other references, each grouped by source note. The default filters hide completed
+ * tasks and anything dated more than 90 days ago; both toggles and open sections last for the session.
+ *
+ * Lines already synced into the open note (same `^blockid`) are hidden, and only the first copy
+ * of a synced line elsewhere is listed. Rows can be dragged into the editor (pane-drag.ts).
+ */
+
+import {
+  DEFAULT_REFERENCE_MAX_AGE_DAYS,
+  organizeReferences,
+  trackedMentions,
+  type ReferenceFilters,
+  type ReferenceGroup,
+  type ReferenceLine,
+} from './mention-references';
+import { noteIndex, type NoteEntry } from './note-index';
+import { makePaneLineDraggable } from './pane-drag';
+import { collectBlockIds, findBlockId, stripBlockId } from './synced-lines';
+import { stripTrailingScheduleTokens } from './task-schedule';
+
+export interface ReferencePaneHandlers {
+  onOpenSource: (entry: NoteEntry, lineNum: number) => void;
+  onComplete: (entry: NoteEntry, lineNum: number, lineText: string) => Promise<void>;
+}
+
+const filters: ReferenceFilters = { hideCompleted: true, maxAgeDays: DEFAULT_REFERENCE_MAX_AGE_DAYS };
+// Sections are collapsed by default; lowercased mentions the user expanded this session.
+const openSections = new Set<string>();
+// Bumped on every render/hide so a slow search never paints over a newer state.
+let renderToken = 0;
+// Note, tracked mentions and synced IDs last rendered, so most saves skip a re-render.
+let renderedKey: string | null = null;
+let lastRender: { relPath: string; docText: string; handlers: ReferencePaneHandlers } | null = null;
+
+function paneKey(relPath: string, docText: string, mentions: string[]): string {
+  return `${relPath}\n${mentions.join(' ').toLowerCase()}\n${collectBlockIds(docText).sort().join(' ')}`;
+}
+
+function displayText(lineText: string): string {
+  const body = lineText.replace(/^\s*[-+*] (?:\[[ x\->]\] )?/, '');
+  return stripTrailingScheduleTokens(stripBlockId(body)) || body.trim();
+}
+
+export function hideReferencePane(): void {
+  renderToken++;
+  renderedKey = null;
+  lastRender = null;
+  document.getElementById('reference-pane')?.classList.add('hidden');
+}
+
+/** True when the open note's tracked mentions or synced lines differ from what the pane shows. */
+export function referencePaneOutdated(relPath: string, docText: string): boolean {
+  return paneKey(relPath, docText, trackedMentions(docText)) !== renderedKey;
+}
+
+/** Show the pane for the open note, or hide it when the note tracks no mentions. */
+export async function renderReferencePane(
+  currentRelPath: string,
+  currentDocText: string,
+  handlers: ReferencePaneHandlers,
+): Promise<void> {
+  const pane = document.getElementById('reference-pane');
+  if (!pane) return;
+
+  const mentions = trackedMentions(currentDocText);
+  if (mentions.length === 0) {
+    hideReferencePane();
+    renderedKey = paneKey(currentRelPath, currentDocText, mentions);
+    return;
+  }
+
+  const token = ++renderToken;
+  const results = await Promise.all(mentions.map((m) => noteIndex.searchMentionReferences(m)));
+  if (token !== renderToken) return;
+
+  renderedKey = paneKey(currentRelPath, currentDocText, mentions);
+  lastRender = { relPath: currentRelPath, docText: currentDocText, handlers };
+
+  pane.textContent = '';
+  pane.appendChild(renderFilterBar());
+  const syncedHere = new Set(collectBlockIds(currentDocText));
+  mentions.forEach((mention, i) => {
+    const groups = withoutSyncedCopies(results[i], currentRelPath, syncedHere);
+    pane.appendChild(renderSection(mention, groups, handlers));
+  });
+  pane.classList.remove('hidden');
+}
+
+/** Drop the open note, lines synced into it, and repeat copies of the same synced line. */
+function withoutSyncedCopies(
+  groups: ReferenceGroup<NoteEntry>[],
+  currentRelPath: string,
+  syncedHere: Set<string>,
+): ReferenceGroup<NoteEntry>[] {
+  const seen = new Set<string>();
+  const out: ReferenceGroup<NoteEntry>[] = [];
+  for (const group of groups) {
+    if (group.entry.relPath === currentRelPath) continue;
+    const lines = group.lines.filter((line) => {
+      const id = findBlockId(line.text);
+      if (!id) return true;
+      if (syncedHere.has(id) || seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+    if (lines.length > 0) out.push({ entry: group.entry, lines });
+  }
+  return out;
+}
+
+function rerender() {
+  if (!lastRender) return;
+  const { relPath, docText, handlers } = lastRender;
+  void renderReferencePane(relPath, docText, handlers);
+}
+
+function renderFilterBar(): HTMLElement {
+  const bar = document.createElement('div');
+  bar.className = 'reference-pane-filters';
+
+  const toggle = (label: string, active: boolean, onChange: () => void) => {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = `reference-pane-filter${active ? ' active' : ''}`;
+    btn.textContent = label;
+    btn.addEventListener('click', () => {
+      onChange();
+      rerender();
+    });
+    bar.appendChild(btn);
+  };
+
+  toggle('Hide completed', filters.hideCompleted, () => {
+    filters.hideCompleted = !filters.hideCompleted;
+  });
+  toggle(`Hide older than ${DEFAULT_REFERENCE_MAX_AGE_DAYS} days`, filters.maxAgeDays !== null, () => {
+    filters.maxAgeDays = filters.maxAgeDays === null ? DEFAULT_REFERENCE_MAX_AGE_DAYS : null;
+  });
+  return bar;
+}
+
+function renderSection(
+  mention: string,
+  groups: ReferenceGroup<NoteEntry>[],
+  handlers: ReferencePaneHandlers,
+): HTMLElement {
+  const key = mention.toLowerCase();
+  const { openTasks, other, hidden } = organizeReferences(groups, filters);
+  const shown = [...openTasks, ...other].reduce((n, g) => n + g.lines.length, 0);
+
+  const section = document.createElement('div');
+  section.className = 'reference-pane-section';
+  section.classList.toggle('open', openSections.has(key));
+
+  const header = document.createElement('div');
+  header.className = 'reference-pane-header';
+  const arrow = document.createElement('i');
+  arrow.className = 'ri-arrow-right-s-line reference-pane-arrow';
+  const title = document.createElement('span');
+  title.className = 'reference-pane-title';
+  title.textContent = mention;
+  const count = document.createElement('span');
+  count.className = 'reference-pane-count';
+  count.textContent = hidden > 0 ? `${shown} (${hidden} hidden)` : String(shown);
+  header.appendChild(arrow);
+  header.appendChild(title);
+  header.appendChild(count);
+  header.addEventListener('click', () => {
+    if (openSections.has(key)) openSections.delete(key);
+    else openSections.add(key);
+    section.classList.toggle('open', openSections.has(key));
+  });
+
+  const body = document.createElement('div');
+  body.className = 'reference-pane-body';
+  if (shown === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'reference-pane-empty';
+    empty.textContent = hidden > 0 ? 'All references are hidden by the filters' : 'No references';
+    body.appendChild(empty);
+  }
+  appendGroups(body, 'Open tasks', openTasks, handlers);
+  appendGroups(body, 'References', other, handlers);
+
+  section.appendChild(header);
+  section.appendChild(body);
+  return section;
+}
+
+function appendGroups(
+  body: HTMLElement,
+  label: string,
+  groups: ReferenceGroup<NoteEntry>[],
+  handlers: ReferencePaneHandlers,
+) {
+  if (groups.length === 0) return;
+  const heading = document.createElement('div');
+  heading.className = 'reference-pane-subheading';
+  heading.textContent = label;
+  body.appendChild(heading);
+
+  for (const group of groups) {
+    const source = document.createElement('div');
+    source.className = 'reference-pane-source';
+    source.textContent = group.entry.title;
+    body.appendChild(source);
+    for (const line of group.lines) {
+      body.appendChild(renderLine(group.entry, line, handlers));
+    }
+  }
+}
+
+function renderLine(entry: NoteEntry, line: ReferenceLine, handlers: ReferencePaneHandlers): HTMLElement {
+  const row = document.createElement('div');
+  row.className = `reference-pane-item reference-pane-item--${line.kind}`;
+
+  if (line.kind === 'open') {
+    const check = document.createElement('button');
+    check.type = 'button';
+    check.className = 'reference-pane-check';
+    check.title = 'Complete in source note';
+    check.innerHTML = /^\s*\+ /.test(line.text)
+      ? '<i class="ri-checkbox-blank-line" aria-hidden="true"></i>'
+      : '<i class="ri-circle-line" aria-hidden="true"></i>';
+    check.addEventListener('click', (e) => {
+      e.stopPropagation();
+      check.disabled = true;
+      row.classList.add('reference-pane-item--done');
+      void handlers.onComplete(entry, line.lineNum, line.text);
+    });
+    row.appendChild(check);
+  }
+
+  const text = document.createElement('span');
+  text.className = 'reference-pane-text';
+  text.textContent = displayText(line.text);
+  text.title = line.text.trim();
+  row.appendChild(text);
+
+  row.addEventListener('click', () => {
+    handlers.onOpenSource(entry, line.lineNum);
+  });
+  makePaneLineDraggable(row, { relPath: entry.relPath, lineNum: line.lineNum, text: line.text }, text.textContent);
+  return row;
+}
@@ -0,0 +1,59 @@
+/**
+ * Typed schedule shortcuts: `>tomorrow`, `>+3d`, `>+1w`, `>nextweek`, `>fri`, `>oct 31`, … at the
+ * end of a task or checklist line become the concrete `>YYYY-MM-DD` / `>YYYY-Www` token when
+ * Space or Enter is pressed, and the line is scheduled through the same executor as the task
+ * context menu (synced copy in the target note). Wired from main.ts via scheduleShortcutExtensions().
+ */
+
+import { Prec } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { resolveEditorListLine } from './live-preview';
+import { trailingScheduleShortcut } from './task-schedule';
+import { runTaskSchedule } from './task-schedule-bridge';
+
+/**
+ * Convert a shortcut that ends right at the cursor. Returns false (nothing changed) when the
+ * cursor is not at the end of a task line ending in a shortcut. The executor writes the concrete
+ * token in the same change that schedules the line, so one undo reverts both; a task that was
+ * already scheduled (`[>] … >old >fri`) moves its copy from the note named by `>old`.
+ */
+export function convertScheduleShortcutAtCursor(view: EditorView, onError: (err: unknown) => void): boolean {
+  const { state } = view;
+  const sel = state.selection.main;
+  if (!sel.empty) return false;
+  const line = state.doc.lineAt(sel.head);
+  if (sel.head !== line.to) return false;
+  const resolved = resolveEditorListLine(state, line.number);
+  if (!resolved || (resolved.kind !== 'task' && resolved.kind !== 'checklist')) return false;
+  const hit = trailingScheduleShortcut(line.text);
+  if (!hit) return false;
+
+  runTaskSchedule(view, line.number, resolved, hit.target, { lineText: line.text.slice(0, hit.from) }).catch(onError);
+  // The executor rewrites the line before its first await; keep the cursor at its end
+  const end = view.state.doc.line(line.number).to;
+  view.dispatch({ selection: { anchor: end } });
+  return true;
+}
+
+/** `onError` reports a schedule that failed after the line was converted (e.g. the copy's write). */
+export function scheduleShortcutExtensions(onError: (err: unknown) => void) {
+  return [
+    // Space after the shortcut is swallowed: the converted token ends the line.
+    EditorView.inputHandler.of((view, from, to, text) => {
+      if (text !== ' ' || from !== to || from !== view.state.selection.main.head) return false;
+      return convertScheduleShortcutAtCursor(view, onError);
+    }),
+    Prec.highest(
+      keymap.of([
+        {
+          key: 'Enter',
+          // Convert, then fall through to the list-aware Enter
+          run: (view) => {
+            convertScheduleShortcutAtCursor(view, onError);
+            return false;
+          },
+        },
+      ]),
+    ),
+  ];
+}
@@ -0,0 +1,150 @@
+/**
+ * Compact month calendar at the top of the sidebar. Days with a daily note are bold, days whose
+ * note has open tasks get a dot, and past days that open tasks are still scheduled to
+ * (`>YYYY-MM-DD`) get a warning dot. Clicking a day opens its daily note; the week column opens
+ * the weekly note. The shown month follows the open calendar note.
+ */
+
+import { buildMonthRows, collectDayMarks } from './month-calendar';
+import { noteIndex } from './note-index';
+import { CALENDAR_WEEK_STARTS_ON, formatISODate } from './task-schedule';
+
+export interface SidebarCalendarHandlers {
+  onOpenDay: (date: Date) => void;
+  onOpenWeek: (year: number, week: number) => void;
+}
+
+let handlers: SidebarCalendarHandlers | null = null;
+let shownYear = new Date().getFullYear();
+let shownMonth = new Date().getMonth();
+/** Day of the open daily note, or Monday of the open weekly note (whole row highlighted). */
+let selected: { date: Date; week: { year: number; week: number } | null } | null = null;
+// Today's date as last painted, so the today ring moves at midnight.
+let paintedToday: string | null = null;
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+export function renderSidebarCalendar(h: SidebarCalendarHandlers): void {
+  handlers = h;
+  refreshSidebarCalendar();
+}
+
+/**
+ * Highlight the open calendar note and bring its month into view; pass null for project notes
+ * (the shown month stays where it is).
+ */
+export function setSidebarCalendarSelection(
+  date: Date | null,
+  week: { year: number; week: number } | null = null,
+): void {
+  selected = date ? { date, week } : null;
+  if (date) {
+    shownYear = date.getFullYear();
+    shownMonth = date.getMonth();
+  }
+  refreshSidebarCalendar();
+}
+
+/** Repaint when the date changed since the last paint (called from the directory poll). */
+export function refreshSidebarCalendarOnDayChange(): void {
+  if (paintedToday !== null && paintedToday !== formatISODate(new Date())) refreshSidebarCalendar();
+}
+
+/** Repaint from the current index (call after the index changes). */
+export function refreshSidebarCalendar(): void {
+  const container = document.getElementById('sidebar-calendar');
+  if (!container || !handlers) return;
+  const h = handlers;
+
+  const today = new Date();
+  const marks = collectDayMarks(noteIndex.entries, today);
+  paintedToday = formatISODate(today);
+  container.textContent = '';
+
+  const nav = document.createElement('div');
+  nav.className = 'sidebar-cal-nav';
+  const navButton = (icon: string, label: string, delta: number) => {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'sidebar-cal-nav-btn';
+    btn.setAttribute('aria-label', label);
+    btn.innerHTML = `<i class="${icon}" aria-hidden="true"></i>`;
+    btn.addEventListener('click', () => {
+      const d = new Date(shownYear, shownMonth + delta, 1);
+      shownYear = d.getFullYear();
+      shownMonth = d.getMonth();
+      refreshSidebarCalendar();
+    });
+    return btn;
+  };
+  const title = document.createElement('button');
+  title.type = 'button';
+  title.className = 'sidebar-cal-title';
+  title.title = 'Show current month';
+  title.textContent = new Date(shownYear, shownMonth, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  title.addEventListener('click', () => {
+    shownYear = today.getFullYear();
+    shownMonth = today.getMonth();
+    refreshSidebarCalendar();
+  });
+  nav.appendChild(navButton('ri-arrow-left-s-line', 'Previous month', -1));
+  nav.appendChild(title);
+  nav.appendChild(navButton('ri-arrow-right-s-line', 'Next month', 1));
+  container.appendChild(nav);
+
+  const dow = document.createElement('div');
+  dow.className = 'sidebar-cal-row sidebar-cal-dow';
+  const labels = CALENDAR_WEEK_STARTS_ON === 'sunday'
+    ? ['W', 'Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+    : ['W', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+  for (const label of labels) {
+    const c = document.createElement('span');
+    c.textContent = label;
+    dow.appendChild(c);
+  }
+  container.appendChild(dow);
+
+  for (const row of buildMonthRows(shownYear, shownMonth, CALENDAR_WEEK_STARTS_ON)) {
+    const rowEl = document.createElement('div');
+    rowEl.className = 'sidebar-cal-row';
+    const isSelectedWeek = !!selected?.week
+      && selected.week.year === row.week.year && selected.week.week === row.week.week;
+    rowEl.classList.toggle('sidebar-cal-row--selected', isSelectedWeek);
+
+    const weekBtn = document.createElement('button');
+    weekBtn.type = 'button';
+    weekBtn.className = 'sidebar-cal-week';
+    weekBtn.textContent = String(row.week.week);
+    weekBtn.title = `Week ${row.week.week}, ${row.week.year}`;
+    weekBtn.addEventListener('click', () => h.onOpenWeek(row.week.year, row.week.week));
+    rowEl.appendChild(weekBtn);
+
+    for (const day of row.days) {
+      if (!day) {
+        rowEl.appendChild(document.createElement('span'));
+        continue;
+      }
+      const iso = formatISODate(day);
+      const mark = marks.get(iso);
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'sidebar-cal-day';
+      btn.textContent = String(day.getDate());
+      btn.classList.toggle('sidebar-cal-day--today', isSameDay(day, today));
+      btn.classList.toggle('sidebar-cal-day--selected', !selected?.week && !!selected && isSameDay(day, selected.date));
+      btn.classList.toggle('sidebar-cal-day--has-note', !!mark?.hasNote);
+      btn.classList.toggle('sidebar-cal-day--open', !!mark?.hasOpenTasks);
+      btn.classList.toggle('sidebar-cal-day--overdue', !!mark?.hasOverdue);
+      const notes = [
+        mark?.hasOpenTasks ? 'open tasks' : '',
+        mark?.hasOverdue ? 'overdue scheduled tasks' : '',
+      ].filter(Boolean);
+      btn.title = notes.length > 0 ? `${iso} — ${notes.join(', ')}` : iso;
+      btn.addEventListener('click', () => h.onOpenDay(day));
+      rowEl.appendChild(btn);
+    }
+    container.appendChild(rowEl);
+  }
+}
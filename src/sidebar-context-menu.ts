@@ -1,21 +1,28 @@
 /**
- * Right-click context menu for sidebar folder and note rows.
+ * Right-click context menu for sidebar folder, note and @mention rows.
  */
 
 import { dismissTaskContextMenu } from './task-context-menu';
+import { isArchivedMention } from './mention-rename';
 import type { TreeNode } from './sidebar-types';
 import {
   archiveTreeNode,
+  configureTrashAutoPurge,
   copySidebarRelativePath,
+  deleteTreeNodePermanently,
   duplicateNote,
+  emptyTrash,
   isInsideArchive,
   isInsideTrash,
   isRecentVirtualFolder,
   isSpecialNotesRootFolder,
+  isTrashFolder,
   newNoteInFolder,
   newSubfolder,
+  restoreTrashItem,
   revealSidebarPath,
   renameTreeNode,
+  trashAutoPurgeDays,
   trashTreeNode,
   type SidebarFsMutation,
 } from './sidebar-fs';
@@ -27,6 +34,16 @@ export interface SidebarContextBridge {
   afterFilesystemChange: (mutation: SidebarFsMutation) => Promise<void>;
 }
 
+/** Actions on a mention across all notes (implemented in main.ts, which owns the editor). */
+export interface MentionContextActions {
+  renameMention: (mention: string) => Promise<void>;
+  /** Strip the `@` from every occurrence, keeping the name as plain text. */
+  deleteMention: (mention: string) => Promise<void>;
+  /** Rewrite every occurrence to `@_old/Name`. */
+  archiveMention: (mention: string) => Promise<void>;
+  onError: (message: string) => void;
+}
+
 let openMenuEl: HTMLDivElement | null = null;
 
 function removeSidebarMenu() {
@@ -78,7 +95,8 @@ function appendItem(
   menu.appendChild(btn);
 }
 
-async function runFs(
+/** Run a sidebar file operation between the bridge's prepare and after-change hooks; errors go to `onError`. */
+export async function runFs(
   bridge: SidebarContextBridge,
   fn: () => Promise<SidebarFsMutation>,
 ) {
@@ -91,6 +109,28 @@ async function runFs(
   }
 }
 
+/** Trash rows: Restore and Delete permanently on items, Empty Trash and auto-purge on the folder. */
+function appendTrashItems(menu: HTMLDivElement, node: TreeNode, bridge: SidebarContextBridge) {
+  if (isTrashFolder(node)) {
+    appendDivider(menu);
+    appendItem(menu, 'Empty Trash…', () => {
+      void runFs(bridge, emptyTrash);
+    }, !node.children?.length);
+    const days = trashAutoPurgeDays();
+    appendItem(menu, days ? `Auto-empty after ${days} days…` : 'Auto-empty: off…', () => {
+      void runFs(bridge, configureTrashAutoPurge);
+    });
+    return;
+  }
+  if (!isInsideTrash(node.relPath)) return;
+  appendItem(menu, 'Restore to original folder', () => {
+    void runFs(bridge, () => restoreTrashItem(node));
+  });
+  appendItem(menu, 'Delete permanently…', () => {
+    void runFs(bridge, () => deleteTreeNodePermanently(node));
+  });
+}
+
 function showFolderMenu(clientX: number, clientY: number, node: TreeNode, bridge: SidebarContextBridge) {
   dismissTaskContextMenu();
   removeSidebarMenu();
@@ -123,9 +163,12 @@ function showFolderMenu(clientX: number, clientY: number, node: TreeNode, bridge
   appendItem(menu, 'Archive', () => {
     void runFs(bridge, () => archiveTreeNode(node));
   }, archiveDis);
-  appendItem(menu, 'Move to Trash', () => {
-    void runFs(bridge, () => trashTreeNode(node));
-  }, trashDis);
+  if (!trashDis) {
+    appendItem(menu, 'Move to Trash', () => {
+      void runFs(bridge, () => trashTreeNode(node));
+    });
+  }
+  appendTrashItems(menu, node, bridge);
 
   mountMenu(menu, clientX, clientY);
 }
@@ -161,9 +204,39 @@ function showNoteMenu(clientX: number, clientY: number, node: TreeNode, bridge:
   appendItem(menu, 'Archive', () => {
     void runFs(bridge, () => archiveTreeNode(node));
   }, archiveDis);
-  appendItem(menu, 'Move to Trash', () => {
-    void runFs(bridge, () => trashTreeNode(node));
-  }, trashDis);
+  if (!trashDis) {
+    appendItem(menu, 'Move to Trash', () => {
+      void runFs(bridge, () => trashTreeNode(node));
+    });
+  }
+  appendTrashItems(menu, node, bridge);
+
+  mountMenu(menu, clientX, clientY);
+}
+
+function showMentionMenu(clientX: number, clientY: number, mention: string, actions: MentionContextActions) {
+  dismissTaskContextMenu();
+  removeSidebarMenu();
+
+  const menu = document.createElement('div');
+  menu.className = 'task-context-menu';
+  menu.setAttribute('role', 'menu');
+
+  appendItem(menu, `Rename ${mention}…`, () => {
+    void actions.renameMention(mention).catch((e) => actions.onError(String(e)));
+  });
+  appendItem(
+    menu,
+    `Archive as @_old/${mention.slice(1)}…`,
+    () => {
+      void actions.archiveMention(mention).catch((e) => actions.onError(String(e)));
+    },
+    isArchivedMention(mention),
+  );
+  appendDivider(menu);
+  appendItem(menu, `Delete ${mention} (keep text)…`, () => {
+    void actions.deleteMention(mention).catch((e) => actions.onError(String(e)));
+  });
 
   mountMenu(menu, clientX, clientY);
 }
@@ -234,3 +307,16 @@ export function attachNoteContextMenu(
     showNoteMenu(e.clientX, e.clientY, node, bridge);
   });
 }
+
+export function attachMentionContextMenu(
+  rowEl: HTMLElement,
+  mention: string,
+  actions: MentionContextActions | undefined,
+) {
+  rowEl.addEventListener('contextmenu', (e) => {
+    if (!actions) return;
+    e.preventDefault();
+    e.stopPropagation();
+    showMentionMenu(e.clientX, e.clientY, mention, actions);
+  });
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { canDropInto } from './sidebar-drag';
+import { RECENT_FOLDER_KEY } from './sidebar-types';
+
+const NOTES = 'Notes';
+
+describe('canDropInto', () => {
+  it('moves notes between folders but not into the folder they are in', () => {
+    const note = { relPath: `${NOTES}/Work/Plan.txt`, isDir: false };
+    expect(canDropInto(note, `${NOTES}/Home`)).toBe(true);
+    expect(canDropInto(note, `${NOTES}/@Archive`)).toBe(true);
+    expect(canDropInto(note, NOTES)).toBe(true);
+    expect(canDropInto(note, `${NOTES}/Work`)).toBe(false);
+  });
+
+  it('never moves a folder into itself or its subfolders', () => {
+    const folder = { relPath: `${NOTES}/Work`, isDir: true };
+    expect(canDropInto(folder, `${NOTES}/Work`)).toBe(false);
+    expect(canDropInto(folder, `${NOTES}/Work/Clients`)).toBe(false);
+    expect(canDropInto(folder, `${NOTES}/Workshop`)).toBe(true);
+    expect(canDropInto(folder, `${NOTES}/@Trash`)).toBe(true);
+  });
+
+  it('ignores the virtual Recent folder', () => {
+    expect(canDropInto({ relPath: `${NOTES}/Plan.txt`, isDir: false }, RECENT_FOLDER_KEY)).toBe(false);
+    expect(canDropInto({ relPath: RECENT_FOLDER_KEY, isDir: true }, `${NOTES}/Work`)).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Drag-and-drop in the sidebar notes tree: notes and folders move between folders, to the Notes
+ * root (empty tree space) and into or out of `@Archive` / `@Trash`. A folder row highlights while
+ * it is a valid target and expands after a short hover. sidebar.ts wires rows; the move itself is
+ * `moveTreeNode` in sidebar-fs.ts, run through the context menu's bridge.
+ */
+
+import { RECENT_FOLDER_KEY, type TreeNode } from './sidebar-types';
+
+const EXPAND_HOVER_MS = 600;
+
+// Set on dragstart: dataTransfer contents are not readable during dragover
+let dragged: TreeNode | null = null;
+
+function parentPath(relPath: string): string {
+  const i = relPath.lastIndexOf('/');
+  return i < 0 ? '' : relPath.slice(0, i);
+}
+
+/**
+ * True when `node` can move into `folderRelPath`: not the folder it is already in, not a folder
+ * into itself or its own subfolder, and never to or from the virtual Recent folder.
+ */
+export function canDropInto(node: Pick<TreeNode, 'relPath' | 'isDir'>, folderRelPath: string): boolean {
+  if (node.relPath === RECENT_FOLDER_KEY || folderRelPath === RECENT_FOLDER_KEY) return false;
+  if (parentPath(node.relPath) === folderRelPath) return false;
+  return !node.isDir || (folderRelPath !== node.relPath && !folderRelPath.startsWith(`${node.relPath}/`));
+}
+
+export function makeTreeNodeDraggable(item: HTMLElement, node: TreeNode): void {
+  item.draggable = true;
+  item.addEventListener('dragstart', (e) => {
+    if (!e.dataTransfer) return;
+    dragged = node;
+    e.dataTransfer.setData('text/plain', node.title);
+    e.dataTransfer.effectAllowed = 'move';
+    item.classList.add('tree-item-dragging');
+  });
+  item.addEventListener('dragend', () => {
+    dragged = null;
+    item.classList.remove('tree-item-dragging');
+  });
+}
+
+/**
+ * Accept tree drops on `target` into `folderRelPath` (a folder row, or a note row for the folder
+ * it is in). `expand` runs after hovering a while, opening the folder so its subfolders become
+ * targets. Targets stop the event, so the innermost one wins.
+ */
+export function makeFolderDropTarget(
+  target: HTMLElement,
+  folderRelPath: string,
+  onDrop: (node: TreeNode) => void,
+  expand?: () => void,
+): void {
+  let expandTimer: ReturnType<typeof setTimeout> | null = null;
+  const clear = () => {
+    target.classList.remove('tree-drop-target');
+    if (expandTimer) clearTimeout(expandTimer);
+    expandTimer = null;
+  };
+
+  target.addEventListener('dragover', (e) => {
+    if (!dragged) return;
+    // Handled here even when refused, so the tree root below does not take the drop
+    e.stopPropagation();
+    // Expand even when refused here: a subfolder may take the drop
+    if (expand && !expandTimer) expandTimer = setTimeout(expand, EXPAND_HOVER_MS);
+    if (!canDropInto(dragged, folderRelPath)) return;
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+    target.classList.add('tree-drop-target');
+  });
+  target.addEventListener('dragleave', (e) => {
+    if (!target.contains(e.relatedTarget as Node | null)) clear();
+  });
+  target.addEventListener('drop', (e) => {
+    clear();
+    const node = dragged;
+    if (!node) return;
+    e.stopPropagation();
+    if (!canDropInto(node, folderRelPath)) return;
+    e.preventDefault();
+    dragged = null;
+    onDrop(node);
+  });
+}
@@ -7,12 +7,22 @@ import {
   copyFile,
   exists,
   mkdir,
+  readDir,
+  remove,
   rename,
   writeTextFile,
 } from '@tauri-apps/plugin-fs';
 import { homeDir, join } from '@tauri-apps/api/path';
 import { revealItemInDir } from '@tauri-apps/plugin-opener';
+import { canDropInto } from './sidebar-drag';
 import { RECENT_FOLDER_KEY, type TreeNode } from './sidebar-types';
+import {
+  expiredTrashItems,
+  originalPath,
+  recordsAfterDelete,
+  recordsAfterMove,
+  type TrashRecords,
+} from './trash-records';
 
 const NOTEPLAN_BASE =
   'Library/Containers/co.noteplan.NotePlan-setapp/Data/Library/Application Support/co.noteplan.NotePlan-setapp';
@@ -25,6 +35,10 @@ const bd = { baseDir: BaseDirectory.Home };
 
 export type SidebarFsMutation =
   | { kind: 'note-path-changed'; from: string; to: string }
+  /** A folder moved; the notes inside keep their filenames. */
+  | { kind: 'folder-path-changed'; from: string; to: string }
+  /** Notes or folders deleted for good (from the Trash). */
+  | { kind: 'paths-deleted'; paths: string[] }
   | { kind: 'none' };
 
 function fileBasename(relPath: string): string {
@@ -82,6 +96,10 @@ export function isInsideTrash(relPath: string): boolean {
   return relPath.includes('/@Trash/') || relPath.endsWith('/@Trash');
 }
 
+export function isTrashFolder(node: TreeNode): boolean {
+  return node.isDir && node.relPath === TRASH_DIR;
+}
+
 export function isSpecialNotesRootFolder(node: TreeNode): boolean {
   return node.isDir && (node.relPath === ARCHIVE_DIR || node.relPath === TRASH_DIR);
 }
@@ -117,6 +135,24 @@ export async function newSubfolder(parentRelPath: string): Promise<SidebarFsMuta
   return { kind: 'none' };
 }
 
+/** Mutation reported for moving `node` to `toPath`. */
+function pathChange(node: TreeNode, toPath: string): SidebarFsMutation {
+  if (node.isDir) return { kind: 'folder-path-changed', from: node.relPath, to: toPath };
+  if (node.relPath.endsWith('.txt')) return { kind: 'note-path-changed', from: node.relPath, to: toPath };
+  return { kind: 'none' };
+}
+
+/** Rename `from` to `toPath` unless something already has that name (the user is told). */
+async function renameUnlessTaken(from: string, toPath: string): Promise<boolean> {
+  if (toPath === from) return false;
+  if (await pathExists(toPath)) {
+    window.alert('A file or folder with that name already exists.');
+    return false;
+  }
+  await rename(from, toPath, { oldPathBaseDir: BaseDirectory.Home, newPathBaseDir: BaseDirectory.Home });
+  return true;
+}
+
 export async function renameTreeNode(node: TreeNode): Promise<SidebarFsMutation> {
   const parent = parentPath(node.relPath);
   if (!parent) return { kind: 'none' };
@@ -127,50 +163,177 @@ export async function renameTreeNode(node: TreeNode): Promise<SidebarFsMutation>
 
   const newBase = node.isDir ? next : `${next.replace(/\.txt$/i, '')}.txt`;
   const toPath = `${parent}/${newBase}`;
-  if (toPath === node.relPath) return { kind: 'none' };
-  if (await pathExists(toPath)) {
-    window.alert('A file or folder with that name already exists.');
-    return { kind: 'none' };
-  }
-
-  await rename(node.relPath, toPath, { oldPathBaseDir: BaseDirectory.Home, newPathBaseDir: BaseDirectory.Home });
+  if (!(await renameUnlessTaken(node.relPath, toPath))) return { kind: 'none' };
+  trackTrashMove(node.relPath, toPath);
+  return pathChange(node, toPath);
+}
 
-  if (!node.isDir && node.relPath.endsWith('.txt')) {
-    return { kind: 'note-path-changed', from: node.relPath, to: toPath };
-  }
-  return { kind: 'none' };
+/**
+ * Rename a note file after its title (`/`, `\` and `:` become `-`), in the same folder.
+ * Returns `none` when the name is unchanged, empty or taken.
+ */
+export async function renameNoteToTitle(relPath: string, title: string): Promise<SidebarFsMutation> {
+  const stem = title.replace(/[/\\:]/g, '-').trim();
+  if (!stem || stem === '.' || stem === '..') return { kind: 'none' };
+  const toPath = `${parentPath(relPath)}/${stem}.txt`;
+  if (!(await renameUnlessTaken(relPath, toPath))) return { kind: 'none' };
+  return { kind: 'note-path-changed', from: relPath, to: toPath };
 }
 
-export async function archiveTreeNode(node: TreeNode): Promise<SidebarFsMutation> {
-  await ensureDir(ARCHIVE_DIR);
+/**
+ * Move a note or folder into `folderRelPath` (sidebar drag-and-drop, Archive, Trash). A name
+ * already taken there gets a number (`Plan 2.txt`). Returns `none` when the move is refused.
+ */
+export async function moveTreeNode(node: TreeNode, folderRelPath: string): Promise<SidebarFsMutation> {
+  if (isRecentVirtualFolder(node) || isSpecialNotesRootFolder(node)) return { kind: 'none' };
+  if (!canDropInto(node, folderRelPath)) return { kind: 'none' };
+  await ensureDir(folderRelPath);
   const base = fileBasename(node.relPath);
   const destName = node.isDir
-    ? await uniqueFolderNameInDir(ARCHIVE_DIR, base)
-    : await uniqueFileNameInDir(ARCHIVE_DIR, base);
-  const toPath = `${ARCHIVE_DIR}/${destName}`;
+    ? await uniqueFolderNameInDir(folderRelPath, base)
+    : await uniqueFileNameInDir(folderRelPath, base);
+  const toPath = `${folderRelPath}/${destName}`;
 
   await rename(node.relPath, toPath, { oldPathBaseDir: BaseDirectory.Home, newPathBaseDir: BaseDirectory.Home });
+  trackTrashMove(node.relPath, toPath);
+  return pathChange(node, toPath);
+}
 
-  if (!node.isDir && node.relPath.endsWith('.txt')) {
-    return { kind: 'note-path-changed', from: node.relPath, to: toPath };
-  }
-  return { kind: 'none' };
+export async function archiveTreeNode(node: TreeNode): Promise<SidebarFsMutation> {
+  return moveTreeNode(node, ARCHIVE_DIR);
 }
 
 export async function trashTreeNode(node: TreeNode): Promise<SidebarFsMutation> {
-  await ensureDir(TRASH_DIR);
-  const base = fileBasename(node.relPath);
-  const destName = node.isDir
-    ? await uniqueFolderNameInDir(TRASH_DIR, base)
-    : await uniqueFileNameInDir(TRASH_DIR, base);
-  const toPath = `${TRASH_DIR}/${destName}`;
+  return moveTreeNode(node, TRASH_DIR);
+}
 
-  await rename(node.relPath, toPath, { oldPathBaseDir: BaseDirectory.Home, newPathBaseDir: BaseDirectory.Home });
+// Trash: origins and trash dates (trash-records.ts) plus the auto-purge setting
+const TRASH_STATE_KEY = 'daymark-trash';
 
-  if (!node.isDir && node.relPath.endsWith('.txt')) {
-    return { kind: 'note-path-changed', from: node.relPath, to: toPath };
+interface TrashState {
+  records: TrashRecords;
+  /** Delete Trash items older than this many days; null keeps them. */
+  autoPurgeDays: number | null;
+}
+
+function loadTrashState(): TrashState {
+  try {
+    const data = JSON.parse(localStorage.getItem(TRASH_STATE_KEY) ?? '{}');
+    return {
+      records: data.records && typeof data.records === 'object' ? data.records : {},
+      autoPurgeDays: typeof data.autoPurgeDays === 'number' ? data.autoPurgeDays : null,
+    };
+  } catch {
+    return { records: {}, autoPurgeDays: null };
   }
-  return { kind: 'none' };
+}
+
+function saveTrashState(state: TrashState): void {
+  try {
+    localStorage.setItem(TRASH_STATE_KEY, JSON.stringify(state));
+  } catch {
+    // Ignore quota or storage errors
+  }
+}
+
+function trackTrashMove(from: string, to: string): void {
+  if (!isInsideTrash(from) && !isInsideTrash(to)) return;
+  const state = loadTrashState();
+  saveTrashState({ ...state, records: recordsAfterMove(state.records, from, to, TRASH_DIR, Date.now()) });
+}
+
+async function deletePaths(paths: string[]): Promise<SidebarFsMutation> {
+  if (paths.length === 0) return { kind: 'none' };
+  const state = loadTrashState();
+  for (const path of paths) {
+    await remove(path, { ...bd, recursive: true });
+    state.records = recordsAfterDelete(state.records, path);
+  }
+  saveTrashState(state);
+  return { kind: 'paths-deleted', paths };
+}
+
+async function trashItemPaths(): Promise<string[]> {
+  if (!(await pathExists(TRASH_DIR))) return [];
+  const entries = await readDir(TRASH_DIR, bd);
+  return entries.filter((e) => !e.name.startsWith('.')).map((e) => `${TRASH_DIR}/${e.name}`);
+}
+
+/** Notes (`.txt`) and folders under `dirRel`, recursively. */
+async function countContents(dirRel: string): Promise<{ notes: number; folders: number }> {
+  const counts = { notes: 0, folders: 0 };
+  for (const e of await readDir(dirRel, bd)) {
+    if (e.name.startsWith('.')) continue;
+    if (e.isDirectory) {
+      const inner = await countContents(`${dirRel}/${e.name}`);
+      counts.folders += 1 + inner.folders;
+      counts.notes += inner.notes;
+    } else if (e.name.endsWith('.txt')) {
+      counts.notes++;
+    }
+  }
+  return counts;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/**
+ * Move a Trash item back where it was trashed from (recreating missing folders); items without a
+ * record go to the Notes root. A name taken there gets a number.
+ */
+export async function restoreTrashItem(node: TreeNode): Promise<SidebarFsMutation> {
+  if (!isInsideTrash(node.relPath) || isTrashFolder(node)) return { kind: 'none' };
+  const target = originalPath(loadTrashState().records, node.relPath, NOTES_ROOT);
+  const folder = parentPath(target);
+  await ensureDir(folder);
+  const base = fileBasename(target);
+  const destName = node.isDir ? await uniqueFolderNameInDir(folder, base) : await uniqueFileNameInDir(folder, base);
+  const toPath = `${folder}/${destName}`;
+  await rename(node.relPath, toPath, { oldPathBaseDir: BaseDirectory.Home, newPathBaseDir: BaseDirectory.Home });
+  trackTrashMove(node.relPath, toPath);
+  return pathChange(node, toPath);
+}
+
+export async function deleteTreeNodePermanently(node: TreeNode): Promise<SidebarFsMutation> {
+  if (!isInsideTrash(node.relPath) || isTrashFolder(node)) return { kind: 'none' };
+  const what = node.isDir ? `the folder "${node.name}" and everything in it` : `"${node.title}"`;
+  if (!window.confirm(`Permanently delete ${what}? This can't be undone.`)) return { kind: 'none' };
+  return deletePaths([node.relPath]);
+}
+
+export async function emptyTrash(): Promise<SidebarFsMutation> {
+  const items = await trashItemPaths();
+  if (items.length === 0) return { kind: 'none' };
+  const { notes, folders } = await countContents(TRASH_DIR);
+  const contents = folders > 0 ? `${plural(notes, 'note')} and ${plural(folders, 'folder')}` : plural(notes, 'note');
+  if (!window.confirm(`Permanently delete ${contents} in the Trash? This can't be undone.`)) return { kind: 'none' };
+  return deletePaths(items);
+}
+
+export function trashAutoPurgeDays(): number | null {
+  return loadTrashState().autoPurgeDays;
+}
+
+/** Ask how many days Trash items are kept; empty or 0 turns auto-purge off. Purges right away. */
+export async function configureTrashAutoPurge(): Promise<SidebarFsMutation> {
+  const current = trashAutoPurgeDays();
+  const raw = window.prompt('Delete items in the Trash after how many days? (empty to keep them)', current ? String(current) : '30');
+  if (raw === null) return { kind: 'none' };
+  const days = Number(raw.trim() || '0');
+  if (!Number.isInteger(days) || days < 0) return { kind: 'none' };
+  saveTrashState({ ...loadTrashState(), autoPurgeDays: days > 0 ? days : null });
+  return purgeExpiredTrash();
+}
+
+/** Delete Trash items older than the auto-purge setting (none when it is off). */
+export async function purgeExpiredTrash(): Promise<SidebarFsMutation> {
+  const state = loadTrashState();
+  if (state.autoPurgeDays === null) return { kind: 'none' };
+  const { expired, records } = expiredTrashItems(state.records, await trashItemPaths(), state.autoPurgeDays, Date.now());
+  saveTrashState({ ...state, records });
+  return deletePaths(expired);
 }
 
 export async function duplicateNote(relPath: string): Promise<SidebarFsMutation> {
@@ -1,7 +1,10 @@
 import { readDir, readTextFile, BaseDirectory } from '@tauri-apps/plugin-fs';
 import { noteIndex } from './note-index';
-import type { SidebarContextBridge } from './sidebar-context-menu';
-import { attachFolderContextMenu, attachNoteContextMenu } from './sidebar-context-menu';
+import { parseSearchQuery, queryIncludesDone } from './text-search';
+import type { MentionContextActions, SidebarContextBridge } from './sidebar-context-menu';
+import { attachFolderContextMenu, attachMentionContextMenu, attachNoteContextMenu, runFs } from './sidebar-context-menu';
+import { makeFolderDropTarget, makeTreeNodeDraggable } from './sidebar-drag';
+import { moveTreeNode } from './sidebar-fs';
 import type { TreeNode } from './sidebar-types';
 import { RECENT_FOLDER_KEY } from './sidebar-types';
 
@@ -142,11 +145,21 @@ const SPECIAL_FOLDER_ICONS: Record<string, string> = {
   'Recent': 'ri-time-line',
 };
 
+/** Drop handler moving a dragged tree node into `folderRelPath`. */
+function dropInto(folderRelPath: string, handlers: SidebarHandlers): (node: TreeNode) => void {
+  return (node) => {
+    const bridge = handlers.contextBridge;
+    if (bridge) void runFs(bridge, () => moveTreeNode(node, folderRelPath));
+  };
+}
+
+/** `folderRelPath` is the real folder holding `nodes` (drop target for note rows); null in Recent. */
 function renderTree(
   container: HTMLElement,
   nodes: TreeNode[],
   depth: number,
   handlers: SidebarHandlers,
+  folderRelPath: string | null,
 ): void {
   for (const node of nodes) {
     const indent = 12 + depth * 18;
@@ -198,13 +211,17 @@ function renderTree(
       });
 
       attachFolderContextMenu(item, node, handlers.contextBridge);
+      makeTreeNodeDraggable(item, node);
+      makeFolderDropTarget(item, node.relPath, dropInto(node.relPath, handlers), () =>
+        ensureNormalFolderExpanded(node.relPath, childContainer, arrow, icon),
+      );
 
       folder.appendChild(item);
       folder.appendChild(childContainer);
       container.appendChild(folder);
 
       if (node.children) {
-        renderTree(childContainer, node.children, depth + 1, handlers);
+        renderTree(childContainer, node.children, depth + 1, handlers, node.relPath);
       }
     } else {
       const item = document.createElement('div');
@@ -232,6 +249,8 @@ function renderTree(
         handlers.onOpenNote(node);
       });
       attachNoteContextMenu(item, node, handlers.contextBridge);
+      makeTreeNodeDraggable(item, node);
+      if (folderRelPath) makeFolderDropTarget(item, folderRelPath, dropInto(folderRelPath, handlers));
       container.appendChild(item);
     }
   }
@@ -284,6 +303,11 @@ function renderSpecialFolders(
     });
 
     attachFolderContextMenu(item, node, handlers.contextBridge);
+    if (node.relPath !== RECENT_FOLDER_KEY) {
+      makeFolderDropTarget(item, node.relPath, dropInto(node.relPath, handlers), () =>
+        ensureSpecialFolderExpanded(node.relPath, childContainer, arrow),
+      );
+    }
 
     const wrapper = document.createElement('div');
     wrapper.className = 'tree-folder';
@@ -293,7 +317,7 @@ function renderSpecialFolders(
     container.appendChild(wrapper);
 
     if (node.children) {
-      renderTree(childContainer, node.children, 1, handlers);
+      renderTree(childContainer, node.children, 1, handlers, node.relPath === RECENT_FOLDER_KEY ? null : node.relPath);
     }
   }
 }
@@ -382,7 +406,7 @@ async function buildSidebar(handlers: SidebarHandlers): Promise<void> {
   const specialNodes = await buildSpecialNodes(notesPath, allEntries);
 
   treeContainer.textContent = '';
-  renderTree(treeContainer, mainTree, 0, handlers);
+  renderTree(treeContainer, mainTree, 0, handlers, notesPath);
 
   if (specialContainer) {
     specialContainer.textContent = '';
@@ -411,6 +435,10 @@ export async function initSidebar(handlers: SidebarHandlers): Promise<void> {
   const treeContainer = document.getElementById('sidebar-tree');
   if (!treeContainer) return;
 
+  // Empty tree space: move to the Notes root (rows stop the events they handle)
+  const notesPath = `${NOTEPLAN_BASE}/Notes`;
+  makeFolderDropTarget(treeContainer, notesPath, dropInto(notesPath, handlers));
+
   treeContainer.textContent = 'Loading…';
 
   try {
@@ -439,6 +467,7 @@ export async function refreshSidebar(): Promise<void> {
 // --- @Mentions sidebar section ---
 
 let mentionClickCallback: ((mention: string) => void) | null = null;
+let mentionContextActions: MentionContextActions | undefined;
 const mentionSectionOpen = { value: true };
 const openMentionGroups = new Set<string>();
 
@@ -485,8 +514,12 @@ function groupMentions(ranked: MentionItem[]): MentionGroup[] {
   });
 }
 
-export function renderMentionsSidebar(onMentionClick: (mention: string) => void): void {
+export function renderMentionsSidebar(
+  onMentionClick: (mention: string) => void,
+  contextActions?: MentionContextActions,
+): void {
   mentionClickCallback = onMentionClick;
+  mentionContextActions = contextActions;
   refreshMentionsSidebar();
 }
 
@@ -621,6 +654,7 @@ function renderMentionItems(
     el.addEventListener('click', () => {
       if (mentionClickCallback) mentionClickCallback(item.mention);
     });
+    attachMentionContextMenu(el, item.mention, mentionContextActions);
 
     container.appendChild(el);
   }
@@ -671,6 +705,176 @@ let hashtagClickCallback: ((hashtag: string) => void) | null = null;
 const hashtagSectionOpen = { value: true };
 const openHashtagGroups = new Set<string>();
 
+// --- Saved searches sidebar section ---
+
+export interface SavedSearch {
+  name: string;
+  query: string;
+}
+
+// Count badges are recomputed at most this often (each count reads the matching notes)
+const SAVED_SEARCH_COUNT_DELAY_MS = 1500;
+
+let savedSearches: SavedSearch[] = [];
+let savedSearchClickCallback: ((saved: SavedSearch) => void) | null = null;
+const savedSearchSectionOpen = { value: true };
+let activeSavedSearchName: string | null = null;
+const savedSearchCounts = new Map<string, number>();
+let savedSearchCountTimeout: ReturnType<typeof setTimeout> | null = null;
+let savedSearchCountToken = 0;
+
+export function getSavedSearch(name: string): SavedSearch | null {
+  return savedSearches.find((s) => s.name === name) ?? null;
+}
+
+/** Save (or overwrite, by name) a search query and show it in the sidebar. */
+export function addSavedSearch(name: string, query: string): void {
+  const existing = getSavedSearch(name);
+  if (existing) {
+    existing.query = query;
+  } else {
+    savedSearches.push({ name, query });
+    savedSearches.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+  }
+  savedSearchCounts.delete(name);
+  persistSidebarState();
+  refreshSavedSearchesSidebar();
+}
+
+export function removeSavedSearch(name: string): void {
+  savedSearches = savedSearches.filter((s) => s.name !== name);
+  savedSearchCounts.delete(name);
+  if (activeSavedSearchName === name) activeSavedSearchName = null;
+  persistSidebarState();
+  refreshSavedSearchesSidebar();
+}
+
+/** Highlight the saved search currently shown in the results view (null to clear). */
+export function setActiveSavedSearch(name: string | null): void {
+  activeSavedSearchName = name;
+  document.querySelectorAll<HTMLElement>('#sidebar-saved-searches .saved-search-item').forEach((el) => {
+    el.classList.toggle('active', el.dataset.name === name);
+  });
+}
+
+/**
+ * Matching lines for a saved search, as the results view shows them by default: done lines only
+ * when the query asks for them, archived and trashed notes excluded.
+ */
+async function countSavedSearch(query: string): Promise<number> {
+  const parsed = parseSearchQuery(query);
+  if (parsed.terms.length === 0) return 0;
+  const includesDone = queryIncludesDone(parsed);
+  const results = await noteIndex.searchQuery(parsed);
+  let count = 0;
+  for (const r of results) {
+    if (r.entry.isArchived) continue;
+    count += includesDone ? r.lines.length : r.lines.filter((l) => !l.isDone).length;
+  }
+  return count;
+}
+
+function scheduleSavedSearchCounts(): void {
+  if (savedSearchCountTimeout) clearTimeout(savedSearchCountTimeout);
+  savedSearchCountTimeout = setTimeout(async () => {
+    savedSearchCountTimeout = null;
+    const token = ++savedSearchCountToken;
+    const counts = await Promise.all(savedSearches.map((s) => countSavedSearch(s.query)));
+    if (token !== savedSearchCountToken) return;
+    savedSearches.forEach((s, i) => savedSearchCounts.set(s.name, counts[i]));
+    document.querySelectorAll<HTMLElement>('#sidebar-saved-searches .saved-search-item').forEach((el) => {
+      const badge = el.querySelector('.mention-count');
+      const count = savedSearchCounts.get(el.dataset.name ?? '');
+      if (badge && count !== undefined) badge.textContent = String(count);
+    });
+  }, SAVED_SEARCH_COUNT_DELAY_MS);
+}
+
+export function renderSavedSearchesSidebar(onSavedSearchClick: (saved: SavedSearch) => void): void {
+  savedSearchClickCallback = onSavedSearchClick;
+  refreshSavedSearchesSidebar();
+}
+
+/** Redraw the section with the last known counts, then recount in the background (index changed). */
+export function refreshSavedSearchesSidebar(): void {
+  const container = document.getElementById('sidebar-saved-searches');
+  if (!container) return;
+
+  container.textContent = '';
+  if (savedSearches.length === 0) return;
+
+  const sectionHeader = document.createElement('div');
+  sectionHeader.className = 'tree-item sidebar-section-header';
+  sectionHeader.style.paddingLeft = '12px';
+
+  const sectionArrow = document.createElement('i');
+  sectionArrow.className = savedSearchSectionOpen.value
+    ? 'ri-arrow-down-s-line tree-item-arrow'
+    : 'ri-arrow-right-s-line tree-item-arrow';
+
+  const sectionIcon = document.createElement('i');
+  sectionIcon.className = 'ri-bookmark-line tree-item-icon';
+
+  const sectionLabel = document.createElement('span');
+  sectionLabel.className = 'tree-item-label';
+  sectionLabel.textContent = 'Saved searches';
+
+  sectionHeader.appendChild(sectionArrow);
+  sectionHeader.appendChild(sectionIcon);
+  sectionHeader.appendChild(sectionLabel);
+
+  const sectionBody = document.createElement('div');
+  sectionBody.className = `tree-folder-children${savedSearchSectionOpen.value ? ' open' : ''}`;
+
+  sectionHeader.addEventListener('click', () => {
+    savedSearchSectionOpen.value = !savedSearchSectionOpen.value;
+    sectionBody.classList.toggle('open', savedSearchSectionOpen.value);
+    sectionArrow.className = savedSearchSectionOpen.value
+      ? 'ri-arrow-down-s-line tree-item-arrow'
+      : 'ri-arrow-right-s-line tree-item-arrow';
+    persistSidebarState();
+  });
+
+  container.appendChild(sectionHeader);
+  container.appendChild(sectionBody);
+
+  for (const saved of savedSearches) {
+    const el = document.createElement('div');
+    el.className = `tree-item mention-item saved-search-item${saved.name === activeSavedSearchName ? ' active' : ''}`;
+    el.style.paddingLeft = '24px';
+    el.dataset.name = saved.name;
+    el.title = saved.query;
+
+    const spacer = document.createElement('span');
+    spacer.className = 'tree-item-arrow-spacer';
+
+    const label = document.createElement('span');
+    label.className = 'tree-item-label';
+    label.textContent = saved.name;
+
+    const badge = document.createElement('span');
+    badge.className = 'mention-count';
+    const count = savedSearchCounts.get(saved.name);
+    badge.textContent = count === undefined ? '' : String(count);
+
+    el.appendChild(spacer);
+    el.appendChild(label);
+    el.appendChild(badge);
+
+    el.addEventListener('click', () => {
+      if (savedSearchClickCallback) savedSearchClickCallback(saved);
+    });
+    el.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      if (window.confirm(`Remove saved search "${saved.name}"?`)) removeSavedSearch(saved.name);
+    });
+
+    sectionBody.appendChild(el);
+  }
+
+  scheduleSavedSearchCounts();
+}
+
 // Persist sidebar open/closed state across sessions
 const SIDEBAR_STATE_KEY = 'daymark-sidebar-state';
 
@@ -691,6 +895,13 @@ function loadSidebarState(): void {
       openMentionGroups.clear();
       data.openMentionGroups.forEach((p: string) => openMentionGroups.add(p));
     }
+    if (Array.isArray(data.savedSearches)) {
+      savedSearches = data.savedSearches.filter(
+        (s: unknown): s is SavedSearch =>
+          !!s && typeof (s as SavedSearch).name === 'string' && typeof (s as SavedSearch).query === 'string',
+      );
+    }
+    if (typeof data.savedSearchSectionOpen === 'boolean') savedSearchSectionOpen.value = data.savedSearchSectionOpen;
     if (typeof data.hashtagSectionOpen === 'boolean') hashtagSectionOpen.value = data.hashtagSectionOpen;
     if (Array.isArray(data.openHashtagGroups)) {
       openHashtagGroups.clear();
@@ -710,6 +921,8 @@ function persistSidebarState(): void {
       openMentionGroups: [...openMentionGroups],
       hashtagSectionOpen: hashtagSectionOpen.value,
       openHashtagGroups: [...openHashtagGroups],
+      savedSearches,
+      savedSearchSectionOpen: savedSearchSectionOpen.value,
     };
     localStorage.setItem(SIDEBAR_STATE_KEY, JSON.stringify(data));
   } catch {
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectBlockIds,
+  findBlockId,
+  generateBlockId,
+  rewriteSyncedLinesInText,
+  stripBlockId,
+  syncedCopyLine,
+  syncedLineUpdate,
+  withBlockId,
+} from './synced-lines';
+
+describe('synced-lines', () => {
+  it('finds and collects block IDs', () => {
+    expect(findBlockId('- [ ] call Sam ^abc123 >2026-03-20')).toBe('abc123');
+    expect(findBlockId('- [ ] no id here')).toBeNull();
+    expect(findBlockId('x^abc123')).toBeNull();
+    expect(collectBlockIds('- a ^aaaaaa\n- b ^bbbbbb\n- c ^aaaaaa')).toEqual(['aaaaaa', 'bbbbbb']);
+  });
+
+  it('strips a block ID from body text', () => {
+    expect(stripBlockId('call Sam ^abc123 >2026-03-20')).toBe('call Sam >2026-03-20');
+    expect(stripBlockId('^abc123')).toBe('');
+    expect(stripBlockId('call  Sam\tnow ^abc123 >2026-03-20')).toBe('call  Sam\tnow >2026-03-20');
+  });
+
+  it('generates 6-character IDs that avoid taken ones', () => {
+    const id = generateBlockId();
+    expect(id).toMatch(/^[a-z0-9]{6}$/);
+    let calls = 0;
+    const next = generateBlockId(() => ++calls < 3);
+    expect(calls).toBe(3);
+    expect(next).toMatch(/^[a-z0-9]{6}$/);
+  });
+
+  it('propagates completion but keeps each copy indent', () => {
+    expect(syncedLineUpdate('\t- [ ] call Sam ^abc123', '- [x] call Sam ^abc123')).toBe(
+      '\t- [x] call Sam ^abc123',
+    );
+  });
+
+  it('keeps the scheduled source [>] when a copy is reopened or edited', () => {
+    const source = '- [>] call Sam ^abc123 >2026-03-20';
+    expect(syncedLineUpdate(source, '- [ ] call Sam today ^abc123 >2026-03-20')).toBe(
+      '- [>] call Sam today ^abc123 >2026-03-20',
+    );
+    expect(syncedLineUpdate(source, '- [x] call Sam ^abc123 >2026-03-20')).toBe(
+      '- [x] call Sam ^abc123 >2026-03-20',
+    );
+  });
+
+  it('never spreads [>] onto other copies', () => {
+    expect(syncedLineUpdate('- [ ] call Sam ^abc123', '- [>] call Sam ^abc123 >2026-03-20')).toBe(
+      '- [ ] call Sam ^abc123 >2026-03-20',
+    );
+  });
+
+  it('treats shortcut "- " tasks as open', () => {
+    expect(syncedLineUpdate('- call Sam ^abc123', '- [x] call Sam ^abc123')).toBe('- [x] call Sam ^abc123');
+    expect(syncedLineUpdate('- [x] call Sam ^abc123', '- call Sam ^abc123')).toBe('- call Sam ^abc123');
+  });
+
+  it('syncs non-task lines verbatim apart from indent', () => {
+    expect(syncedLineUpdate('\tNotes from call ^abc123', 'Notes from the call ^abc123')).toBe(
+      '\tNotes from the call ^abc123',
+    );
+  });
+
+  it('rewrites only matching lines in a file', () => {
+    const text = '# Day\n- [ ] call Sam ^abc123\n- [ ] other ^zzzzzz\n';
+    const next = rewriteSyncedLinesInText(text, 'abc123', '- [x] call Sam ^abc123');
+    expect(next).toBe('# Day\n- [x] call Sam ^abc123\n- [ ] other ^zzzzzz\n');
+    expect(rewriteSyncedLinesInText(next, 'abc123', '- [x] call Sam ^abc123')).toBe(next);
+  });
+
+  it('builds a synced copy for a line dragged from another note', () => {
+    expect(syncedCopyLine('\t- ask @Alex about Q3', 'abc123')).toBe('- ask @Alex about Q3 ^abc123');
+    expect(syncedCopyLine('  - ask @Alex ^zzzzzz', 'abc123')).toBe('- ask @Alex ^zzzzzz');
+    expect(withBlockId('Notes from call  ', 'abc123')).toBe('Notes from call ^abc123');
+  });
+});
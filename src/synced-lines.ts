@@ -0,0 +1,136 @@
+/**
+ * NotePlan-style synced lines: every copy of a line carries the same `^blockid` (6 alphanumeric
+ * characters) and edits to any copy are written to all the others. Pure text helpers — file I/O
+ * and the editor listener live in main.ts.
+ */
+
+/** `^abc123` at a word boundary; group 1 is the ID without the caret. */
+export const BLOCK_ID_RE = /(?:^|\s)\^([A-Za-z0-9]{6})(?=\s|$)/;
+const BLOCK_ID_RE_GLOBAL = /(?:^|\s)\^([A-Za-z0-9]{6})(?=\s|$)/g;
+
+const BLOCK_ID_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Marker + body split for any line that might be synced. Groups: (1) leading whitespace,
+ * (2)+(3) `-`/`+` with a `[ ]`-style box, (4) shortcut or `*` bullet, (5) ordered marker, (6) body.
+ */
+const SYNCED_LINE_RE = /^(\s*)(?:([-+]) \[([ x\->])\] |([-+*]) |(\d+[.)]) )?(.*)$/;
+
+/** First block ID on the line, without the caret, or null. */
+export function findBlockId(lineText: string): string | null {
+  const m = lineText.match(BLOCK_ID_RE);
+  return m ? m[1] : null;
+}
+
+/** Every block ID in a note's text (deduplicated, in order of appearance). */
+export function collectBlockIds(text: string): string[] {
+  const ids: string[] = [];
+  for (const m of text.matchAll(BLOCK_ID_RE_GLOBAL)) {
+    if (!ids.includes(m[1])) ids.push(m[1]);
+  }
+  return ids;
+}
+
+/** Remove a `^blockid` from body text with the whitespace before it; the rest of the body is kept as typed. */
+export function stripBlockId(body: string): string {
+  return body.replace(/\s*(?<!\S)\^[A-Za-z0-9]{6}(?=\s|$)/g, '').trim();
+}
+
+/** New random block ID; `isTaken` lets callers avoid IDs already present in the index. */
+export function generateBlockId(isTaken: (id: string) => boolean = () => false): string {
+  for (;;) {
+    let id = '';
+    for (let i = 0; i < 6; i++) {
+      id += BLOCK_ID_CHARS[Math.floor(Math.random() * BLOCK_ID_CHARS.length)];
+    }
+    if (!isTaken(id)) return id;
+  }
+}
+
+interface SyncedLineParts {
+  lead: string;
+  /** `-`, `+`, `*` or ordered marker such as `1.`; empty for plain text lines. */
+  listChar: string;
+  /** Task box character (` `, `x`, `-`, `>`) when the line has `[ ]`-style markup. */
+  box: string | null;
+  /** True for `- ` / `+ ` shortcut tasks (open, no brackets on disk). */
+  isShortcutTask: boolean;
+  body: string;
+}
+
+function splitSyncedLine(lineText: string): SyncedLineParts {
+  const m = lineText.match(SYNCED_LINE_RE)!;
+  if (m[2] !== undefined) {
+    return { lead: m[1], listChar: m[2], box: m[3], isShortcutTask: false, body: m[6] };
+  }
+  if (m[4] !== undefined) {
+    return { lead: m[1], listChar: m[4], box: null, isShortcutTask: m[4] !== '*', body: m[6] };
+  }
+  if (m[5] !== undefined) {
+    return { lead: m[1], listChar: m[5], box: null, isShortcutTask: false, body: m[6] };
+  }
+  return { lead: m[1], listChar: '', box: null, isShortcutTask: false, body: m[6] };
+}
+
+function isTaskLike(p: SyncedLineParts): boolean {
+  return p.box !== null || p.isShortcutTask;
+}
+
+/**
+ * New text for one copy of a synced line after another copy was edited to `editedLine`.
+ *
+ * The copy keeps its own leading indent (structure is per file) and takes the edited body.
+ * Task state: done/cancelled/reopen propagate to every copy, but a `[>]` copy (the scheduled
+ * source) stays `[>]` when the edit reopens, and `[>]` itself never spreads to other copies.
+ */
+export function syncedLineUpdate(targetLine: string, editedLine: string): string {
+  const target = splitSyncedLine(targetLine);
+  const edited = splitSyncedLine(editedLine);
+
+  if (!isTaskLike(edited) || !isTaskLike(target)) {
+    const marker = edited.box !== null
+      ? `${edited.listChar} [${edited.box}] `
+      : edited.listChar ? `${edited.listChar} ` : '';
+    return `${target.lead}${marker}${edited.body}`;
+  }
+
+  const editedBox = edited.box ?? ' ';
+  const targetBox = target.box ?? ' ';
+  let box = editedBox;
+  if (editedBox === '>') box = targetBox;
+  else if (editedBox === ' ' && targetBox === '>') box = '>';
+
+  const marker = box === ' ' && edited.box === null
+    ? `${edited.listChar} `
+    : `${edited.listChar} [${box}] `;
+  return `${target.lead}${marker}${edited.body}`;
+}
+
+/**
+ * Rewrite every line in `text` carrying `blockId` to match `editedLine`.
+ * Returns the original string (same reference) when nothing changed.
+ */
+export function rewriteSyncedLinesInText(text: string, blockId: string, editedLine: string): string {
+  const lines = text.split('\n');
+  let changed = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (findBlockId(lines[i]) !== blockId) continue;
+    const next = syncedLineUpdate(lines[i], editedLine);
+    if (next !== lines[i]) {
+      lines[i] = next;
+      changed = true;
+    }
+  }
+  return changed ? lines.join('\n') : text;
+}
+
+/** `lineText` carrying `blockId`: unchanged when it already has a block ID, else ` ^id` appended. */
+export function withBlockId(lineText: string, blockId: string): string {
+  if (findBlockId(lineText)) return lineText;
+  return `${lineText.trimEnd()} ^${blockId}`;
+}
+
+/** Synced copy of a line from another note: drops the source's indent and ensures `^blockId`. */
+export function syncedCopyLine(sourceLine: string, blockId: string): string {
+  return withBlockId(sourceLine.trimStart(), blockId);
+}
@@ -1,23 +1,28 @@
 /**
- * Right-click context menu on task list lines: complete, cancel, schedule, reopen.
- * Scheduling uses NotePlan-style >today / >YYYY-MM-DD on the source and a daily copy with <back-ref.
+ * Right-click context menu on task list lines: complete, cancel, schedule, unschedule, reopen.
+ * Scheduling uses NotePlan-style >today / >YYYY-MM-DD on the source and a synced daily copy (^blockid).
  */
 
 import { EditorView } from '@codemirror/view';
-import { resolveEditorListLine, type ResolvedListLine, type TaskState } from './live-preview';
+import { resolveEditorListLine, TASK_COMPLETE_USER_EVENT, type ResolvedListLine, type TaskState } from './live-preview';
 import {
   CALENDAR_WEEK_STARTS_ON,
   formatISODate,
   formatScheduleMenuDate,
   isoWeekRefForRowContaining,
   markdownScheduleDateTag,
+  markdownScheduleMonthTag,
+  markdownScheduleQuarterTag,
   markdownScheduleWeekTag,
+  markdownScheduleYearTag,
   nextIsoWeekRef,
   startOfDisplayWeek,
   thisIsoWeekRef,
+  thisMonthRef,
+  thisQuarterRef,
   type ScheduleTarget,
 } from './task-schedule';
-import { runTaskSchedule } from './task-schedule-bridge';
+import { runTaskSchedule, runTaskUnschedule } from './task-schedule-bridge';
 
 type TaskMenuAction = 'complete' | 'cancel' | 'reopen';
 
@@ -88,9 +93,15 @@ async function applySchedule(
   await runTaskSchedule(view, lineNumber, fresh, target);
 }
 
+async function applyUnschedule(view: EditorView, lineNumber: number): Promise<void> {
+  const fresh = resolveEditorListLine(view.state, lineNumber);
+  if (!fresh || fresh.taskState !== 'scheduled') return;
+  await runTaskUnschedule(view, lineNumber, fresh);
+}
+
 /** Single-line schedule row: label [hint] … monospace token (no wrap). */
-function appendScheduleLine(
-  menu: HTMLDivElement,
+export function appendScheduleLine(
+  menu: HTMLElement,
   label: string,
   token: string,
   hint: string | undefined,
@@ -123,11 +134,11 @@ function appendScheduleLine(
   menu.appendChild(btn);
 }
 
+/** Month grid for picking a schedule day or ISO week. */
 function appendScheduleCalendar(
   parent: HTMLElement,
-  view: EditorView,
-  lineNumber: number,
   compact: boolean,
+  onPick: (target: ScheduleTarget) => void,
 ) {
   const cal = document.createElement('div');
   cal.className = compact
@@ -232,10 +243,7 @@ function appendScheduleCalendar(
       wBtn.title = `${markdownScheduleWeekTag(wk.year, wk.week)} — weekly note`;
       wBtn.addEventListener('click', (e) => {
         e.stopPropagation();
-        removeOpenMenu();
-        void applySchedule(view, lineNumber, { kind: 'week', year: wk.year, week: wk.week }).finally(
-          () => view.focus(),
-        );
+        onPick({ kind: 'week', year: wk.year, week: wk.week });
       });
       rowGrid.appendChild(wBtn);
 
@@ -258,8 +266,7 @@ function appendScheduleCalendar(
           if (isSameCalendarDay(d, today)) b.classList.add('task-schedule-cal-is-today');
           b.addEventListener('click', (e) => {
             e.stopPropagation();
-            removeOpenMenu();
-            void applySchedule(view, lineNumber, { kind: 'date', date: d }).finally(() => view.focus());
+            onPick({ kind: 'date', date: d });
           });
           rowGrid.appendChild(b);
         }
@@ -277,6 +284,48 @@ function appendScheduleCalendar(
   parent.appendChild(cal);
 }
 
+/** "Choose date" row that reveals the schedule calendar on hover or focus. */
+export function appendChooseDateRow(menu: HTMLElement, onPick: (target: ScheduleTarget) => void) {
+  const chooseWrap = document.createElement('div');
+  chooseWrap.className = 'task-context-menu-choose-date';
+
+  const chooseBtn = document.createElement('button');
+  chooseBtn.type = 'button';
+  chooseBtn.className =
+    'task-context-menu-item task-context-menu-item--schedule-line task-context-menu-item--choose-date';
+  const chooseLeft = document.createElement('span');
+  chooseLeft.className = 'task-context-menu-schedule-line-left';
+  const chooseLab = document.createElement('span');
+  chooseLab.className = 'task-context-menu-schedule-label';
+  chooseLab.textContent = 'Choose date';
+  chooseLeft.appendChild(chooseLab);
+  const calIcon = document.createElement('i');
+  calIcon.className = 'ri-calendar-line task-context-menu-choose-date-icon';
+  calIcon.setAttribute('aria-hidden', 'true');
+  chooseBtn.appendChild(chooseLeft);
+  chooseBtn.appendChild(calIcon);
+
+  const calHost = document.createElement('div');
+  calHost.className = 'task-context-menu-choose-date-cal';
+
+  let calendarMounted = false;
+  const ensureCalendar = () => {
+    if (calendarMounted) return;
+    calendarMounted = true;
+    appendScheduleCalendar(calHost, true, onPick);
+  };
+
+  const revealCalendar = () => {
+    ensureCalendar();
+  };
+  chooseWrap.addEventListener('mouseenter', revealCalendar);
+  chooseWrap.addEventListener('focusin', revealCalendar);
+
+  chooseWrap.appendChild(chooseBtn);
+  chooseWrap.appendChild(calHost);
+  menu.appendChild(chooseWrap);
+}
+
 function appendScheduleSection(menu: HTMLDivElement, view: EditorView, lineNumber: number) {
   const divider = document.createElement('div');
   divider.className = 'task-context-menu-divider';
@@ -289,6 +338,20 @@ function appendScheduleSection(menu: HTMLDivElement, view: EditorView, lineNumbe
 
   menu.classList.add('task-context-menu--with-schedule');
 
+  if (resolveEditorListLine(view.state, lineNumber)?.taskState === 'scheduled') {
+    const unschedule = document.createElement('button');
+    unschedule.type = 'button';
+    unschedule.className = 'task-context-menu-item';
+    unschedule.setAttribute('role', 'menuitem');
+    unschedule.textContent = 'Unschedule';
+    unschedule.title = 'Remove the scheduled copy and reopen this task';
+    unschedule.addEventListener('click', () => {
+      removeOpenMenu();
+      void applyUnschedule(view, lineNumber).finally(() => view.focus());
+    });
+    menu.appendChild(unschedule);
+  }
+
   appendScheduleLine(menu, 'Today', '>today', '(repeat until done)', () => {
     void applySchedule(view, lineNumber, { kind: 'today' }).finally(() => view.focus());
   });
@@ -304,6 +367,19 @@ function appendScheduleSection(menu: HTMLDivElement, view: EditorView, lineNumbe
     },
   );
 
+  for (const [label, shortcut, days] of [['In 3 days', '+3d', 3], ['In a week', '+1w', 7]] as const) {
+    const d = addDaysLocal(new Date(), days);
+    appendScheduleLine(
+      menu,
+      label,
+      markdownScheduleDateTag(d),
+      `(${shortcut} · ${formatScheduleMenuDate(d)})`,
+      () => {
+        void applySchedule(view, lineNumber, { kind: 'date', date: d }).finally(() => view.focus());
+      },
+    );
+  }
+
   const tw = thisIsoWeekRef(new Date());
   appendScheduleLine(menu, 'This week', markdownScheduleWeekTag(tw.year, tw.week), undefined, () => {
     void applySchedule(view, lineNumber, { kind: 'week', year: tw.year, week: tw.week }).finally(() =>
@@ -318,44 +394,29 @@ function appendScheduleSection(menu: HTMLDivElement, view: EditorView, lineNumbe
     );
   });
 
-  const chooseWrap = document.createElement('div');
-  chooseWrap.className = 'task-context-menu-choose-date';
-
-  const chooseBtn = document.createElement('button');
-  chooseBtn.type = 'button';
-  chooseBtn.className =
-    'task-context-menu-item task-context-menu-item--schedule-line task-context-menu-item--choose-date';
-  const chooseLeft = document.createElement('span');
-  chooseLeft.className = 'task-context-menu-schedule-line-left';
-  const chooseLab = document.createElement('span');
-  chooseLab.className = 'task-context-menu-schedule-label';
-  chooseLab.textContent = 'Choose date';
-  chooseLeft.appendChild(chooseLab);
-  const calIcon = document.createElement('i');
-  calIcon.className = 'ri-calendar-line task-context-menu-choose-date-icon';
-  calIcon.setAttribute('aria-hidden', 'true');
-  chooseBtn.appendChild(chooseLeft);
-  chooseBtn.appendChild(calIcon);
-
-  const calHost = document.createElement('div');
-  calHost.className = 'task-context-menu-choose-date-cal';
+  const tm = thisMonthRef(new Date());
+  appendScheduleLine(menu, 'This month', markdownScheduleMonthTag(tm.year, tm.month), undefined, () => {
+    void applySchedule(view, lineNumber, { kind: 'month', year: tm.year, month: tm.month }).finally(() =>
+      view.focus(),
+    );
+  });
 
-  let calendarMounted = false;
-  const ensureCalendar = () => {
-    if (calendarMounted) return;
-    calendarMounted = true;
-    appendScheduleCalendar(calHost, view, lineNumber, true);
-  };
+  const tq = thisQuarterRef(new Date());
+  appendScheduleLine(menu, 'This quarter', markdownScheduleQuarterTag(tq.year, tq.quarter), undefined, () => {
+    void applySchedule(view, lineNumber, { kind: 'quarter', year: tq.year, quarter: tq.quarter }).finally(() =>
+      view.focus(),
+    );
+  });
 
-  const revealCalendar = () => {
-    ensureCalendar();
-  };
-  chooseWrap.addEventListener('mouseenter', revealCalendar);
-  chooseWrap.addEventListener('focusin', revealCalendar);
+  const ty = new Date().getFullYear();
+  appendScheduleLine(menu, 'This year', markdownScheduleYearTag(ty), undefined, () => {
+    void applySchedule(view, lineNumber, { kind: 'year', year: ty }).finally(() => view.focus());
+  });
 
-  chooseWrap.appendChild(chooseBtn);
-  chooseWrap.appendChild(calHost);
-  menu.appendChild(chooseWrap);
+  appendChooseDateRow(menu, (target) => {
+    removeOpenMenu();
+    void applySchedule(view, lineNumber, target).finally(() => view.focus());
+  });
 }
 
 let openMenuEl: HTMLDivElement | null = null;
@@ -437,7 +498,7 @@ function showTaskContextMenu(
       if (!fresh || (fresh.kind !== 'task' && fresh.kind !== 'checklist')) return;
       const spec = changeForAction(fresh, action);
       if (!spec) return;
-      view.dispatch({ changes: spec });
+      view.dispatch({ changes: spec, userEvent: action === 'complete' ? TASK_COMPLETE_USER_EVENT : undefined });
       view.focus();
     });
     menu.appendChild(item);
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { findRepeatToken, nextRepeatLine, nextRepeatTarget, type RepeatRule } from './task-repeat';
+import { formatISODate } from './task-schedule';
+
+const rule = (over: Partial<RepeatRule>): RepeatRule => ({
+  interval: 1,
+  unit: 'd',
+  weekday: null,
+  fromCompletion: false,
+  ...over,
+});
+
+describe('findRepeatToken', () => {
+  it('parses @repeat intervals, completion-relative rules and weekdays', () => {
+    const line = '- Submit timesheet @repeat(1w)';
+    expect(findRepeatToken(line)).toEqual({ rule: rule({ unit: 'w' }), from: 19, to: 30 });
+    expect(findRepeatToken('- water plants @repeat(+3d)')?.rule).toEqual(rule({ interval: 3, fromCompletion: true }));
+    expect(findRepeatToken('- standup @repeat(1b)')?.rule.unit).toBe('b');
+    expect(findRepeatToken('- review @repeat(fri)')?.rule).toEqual(rule({ unit: 'w', weekday: 5 }));
+  });
+
+  it('parses *every …* prose', () => {
+    expect(findRepeatToken('- Submit timesheet *every friday*')?.rule).toEqual(rule({ unit: 'w', weekday: 5 }));
+    expect(findRepeatToken('- rent *every month*')?.rule).toEqual(rule({ unit: 'm' }));
+    expect(findRepeatToken('- backup *every 2 weeks from completion*')?.rule)
+      .toEqual(rule({ interval: 2, unit: 'w', fromCompletion: true }));
+    expect(findRepeatToken('- standup *every weekday*')?.rule.unit).toBe('b');
+  });
+
+  it('ignores lines without a valid token', () => {
+    expect(findRepeatToken('- call @repeater about it')).toBeNull();
+    expect(findRepeatToken('- @repeat(0d)')).toBeNull();
+    expect(findRepeatToken('- *every now and then*')).toBeNull();
+  });
+});
+
+describe('nextRepeatTarget', () => {
+  const iso = (t: ReturnType<typeof nextRepeatTarget>) => (t.kind === 'date' ? formatISODate(t.date) : t);
+  // Completed on Monday, Oct 19, 2026
+  const done = new Date(2026, 9, 19, 17, 0);
+  const due = { kind: 'date' as const, date: new Date(2026, 9, 16) };
+
+  it('counts from the due date unless the rule repeats from completion', () => {
+    expect(iso(nextRepeatTarget(rule({ unit: 'w' }), due, done))).toBe('2026-10-23');
+    expect(iso(nextRepeatTarget(rule({ unit: 'w', fromCompletion: true }), due, done))).toBe('2026-10-26');
+    expect(iso(nextRepeatTarget(rule({ interval: 3 }), null, done))).toBe('2026-10-22');
+  });
+
+  it('handles weekdays, months and named days', () => {
+    // Friday + 1 business day = Monday
+    expect(iso(nextRepeatTarget(rule({ unit: 'b' }), due, done))).toBe('2026-10-19');
+    expect(iso(nextRepeatTarget(rule({ unit: 'm' }), { kind: 'date', date: new Date(2026, 0, 31) }, done))).toBe('2026-02-28');
+    expect(iso(nextRepeatTarget(rule({ unit: 'q' }), due, done))).toBe('2027-01-16');
+    expect(iso(nextRepeatTarget(rule({ unit: 'w', weekday: 5 }), due, done))).toBe('2026-10-23');
+    expect(iso(nextRepeatTarget(rule({ unit: 'w', weekday: 3 }), null, done))).toBe('2026-10-21');
+  });
+
+  it('keeps weekly rules on weekly notes', () => {
+    expect(nextRepeatTarget(rule({ unit: 'w' }), { kind: 'week', year: 2026, week: 53 }, done))
+      .toEqual({ kind: 'week', year: 2027, week: 1 });
+    expect(iso(nextRepeatTarget(rule({ interval: 2 }), { kind: 'week', year: 2026, week: 43 }, done))).toBe('2026-10-21');
+  });
+});
+
+describe('nextRepeatLine', () => {
+  it('reopens the task without schedule token or block ID', () => {
+    expect(nextRepeatLine('\t- [x] Submit timesheet @repeat(1w) ^abc123 >2026-10-16')).toBe('\t- [ ] Submit timesheet @repeat(1w)');
+    expect(nextRepeatLine('+ [x] pay rent *every month* <2026-09-30')).toBe('+ [ ] pay rent *every month*');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Repeating tasks: `@repeat(1w)` (NotePlan syntax) or `*every friday*` on a task line. Completing
+ * the task creates its next occurrence (main.ts). Intervals: `d` days, `b` weekdays (Mon–Fri),
+ * `w` weeks, `m` months, `q` quarters, `y` years, or a named weekday. The next date counts from
+ * the task's due date (its `>date` token or calendar note) unless the rule repeats from
+ * completion: `@repeat(+1w)` or `*every 2 weeks from completion*`.
+ */
+
+import { stripBlockId } from './synced-lines';
+import {
+  getSchedulingISOWeek,
+  mondayOfISOWeekNumber,
+  stripTrailingScheduleTokens,
+  type ScheduleTarget,
+} from './task-schedule';
+
+export type RepeatUnit = 'd' | 'b' | 'w' | 'm' | 'q' | 'y';
+
+export interface RepeatRule {
+  interval: number;
+  unit: RepeatUnit;
+  /** 0 (Sunday) – 6 (Saturday) for "every friday"; null for plain intervals. */
+  weekday: number | null;
+  fromCompletion: boolean;
+}
+
+export interface RepeatToken {
+  rule: RepeatRule;
+  /** Offsets of the whole token (`@repeat(…)` or `*every …*`) in the line. */
+  from: number;
+  to: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const PROSE_UNITS: Record<string, RepeatUnit> = {
+  day: 'd',
+  weekday: 'b',
+  week: 'w',
+  month: 'm',
+  quarter: 'q',
+  year: 'y',
+};
+
+const REPEAT_CALL_RE = /(?:^|(?<=\s))@repeat\((\+?)\s*(\d*)\s*([a-z]+)\)/i;
+const REPEAT_PROSE_RE = /(?:^|(?<=\s))\*every\s+(?:(\d+)\s+)?([a-z]+?)s?(\s+from\s+completion)?\*/i;
+
+function weekdayIndex(word: string): number {
+  const w = word.toLowerCase();
+  return w.length >= 3 ? WEEKDAYS.findIndex((d) => d.startsWith(w)) : -1;
+}
+
+function ruleFrom(count: string, word: string, fromCompletion: boolean): RepeatRule | null {
+  const interval = count === '' ? 1 : Number(count);
+  if (!(interval >= 1)) return null;
+  const w = word.length > 1 ? word.toLowerCase().replace(/s$/, '') : word.toLowerCase();
+  const unit = /^[dbwmqy]$/.test(w) ? (w as RepeatUnit) : PROSE_UNITS[w];
+  if (unit) return { interval, unit, weekday: null, fromCompletion };
+  const weekday = weekdayIndex(w);
+  return weekday >= 0 ? { interval, unit: 'w', weekday, fromCompletion } : null;
+}
+
+/** The repeat token on a line, or null. `@repeat(…)` wins when a line has both forms. */
+export function findRepeatToken(lineText: string): RepeatToken | null {
+  const call = lineText.match(REPEAT_CALL_RE);
+  if (call && call.index !== undefined) {
+    const rule = ruleFrom(call[2], call[3], call[1] === '+');
+    if (rule) return { rule, from: call.index, to: call.index + call[0].length };
+  }
+  const prose = lineText.match(REPEAT_PROSE_RE);
+  if (prose && prose.index !== undefined) {
+    const rule = ruleFrom(prose[1] ?? '', prose[2], !!prose[3]);
+    if (rule) return { rule, from: prose.index, to: prose.index + prose[0].length };
+  }
+  return null;
+}
+
+function noon(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate(), 12, 0, 0);
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days, 12, 0, 0);
+}
+
+/** Same day `months` later, clamped to the end of shorter months (Jan 31 + 1m = Feb 28). */
+function addMonths(d: Date, months: number): Date {
+  const first = new Date(d.getFullYear(), d.getMonth() + months, 1, 12, 0, 0);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return new Date(first.getFullYear(), first.getMonth(), Math.min(d.getDate(), lastDay), 12, 0, 0);
+}
+
+function addWeekdays(d: Date, count: number): Date {
+  let x = noon(d);
+  for (let left = count; left > 0;) {
+    x = addDays(x, 1);
+    if (x.getDay() !== 0 && x.getDay() !== 6) left--;
+  }
+  return x;
+}
+
+/**
+ * Target of the next occurrence. `due` is when the completed occurrence was due (a day or an
+ * ISO week; null when unknown, which counts from `completedOn`). Weekly rules on a week stay
+ * weeks (next weekly note); everything else lands on a day.
+ */
+export function nextRepeatTarget(
+  rule: RepeatRule,
+  due: ScheduleTarget | null,
+  completedOn: Date,
+): { kind: 'date'; date: Date } | { kind: 'week'; year: number; week: number } {
+  const dueWeek = !rule.fromCompletion && due?.kind === 'week' ? due : null;
+  let base = noon(completedOn);
+  if (!rule.fromCompletion && due?.kind === 'date') base = noon(due.date);
+  if (dueWeek) base = mondayOfISOWeekNumber(dueWeek.year, dueWeek.week);
+
+  if (rule.weekday !== null) {
+    const ahead = (rule.weekday - base.getDay() + 7) % 7 || 7;
+    return { kind: 'date', date: addDays(base, ahead + (rule.interval - 1) * 7) };
+  }
+  switch (rule.unit) {
+    case 'd': return { kind: 'date', date: addDays(base, rule.interval) };
+    case 'b': return { kind: 'date', date: addWeekdays(base, rule.interval) };
+    case 'w':
+      if (dueWeek) return { kind: 'week', ...getSchedulingISOWeek(addDays(base, rule.interval * 7)) };
+      return { kind: 'date', date: addDays(base, rule.interval * 7) };
+    case 'm': return { kind: 'date', date: addMonths(base, rule.interval) };
+    case 'q': return { kind: 'date', date: addMonths(base, rule.interval * 3) };
+    case 'y': return { kind: 'date', date: addMonths(base, rule.interval * 12) };
+  }
+}
+
+/**
+ * The next occurrence's line: same indent, bullet and text (repeat token included), open, without
+ * the old schedule token or `^blockid` (it is a new task, not a synced copy).
+ */
+export function nextRepeatLine(lineText: string): string {
+  const m = lineText.match(/^(\s*)([-+]) (?:\[[ x\->]\] )?(.*)$/);
+  if (!m) return lineText;
+  const body = stripTrailingScheduleTokens(stripBlockId(m[3])).trim();
+  return `${m[1]}${m[2]} [ ] ${body}`;
+}
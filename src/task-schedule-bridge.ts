@@ -6,11 +6,21 @@ import type { EditorView } from '@codemirror/view';
 import type { ResolvedListLine } from './live-preview';
 import type { ScheduleTarget } from './task-schedule';
 
+/** For a line being edited as it is scheduled (a typed shortcut, see schedule-shortcuts.ts). */
+export interface TaskScheduleOptions {
+  /**
+   * The line to schedule instead of the document's: the document line with its tail (the
+   * shortcut) cut off. Its old schedule token names the copy to move; the tail goes in the same change.
+   */
+  lineText?: string;
+}
+
 export type TaskScheduleExecutor = (
   view: EditorView,
   lineNumber: number,
   resolved: ResolvedListLine,
   target: ScheduleTarget,
+  options?: TaskScheduleOptions,
 ) => Promise<void>;
 
 let executor: TaskScheduleExecutor | null = null;
@@ -24,7 +34,25 @@ export function runTaskSchedule(
   lineNumber: number,
   resolved: ResolvedListLine,
   target: ScheduleTarget,
+  options?: TaskScheduleOptions,
 ): Promise<void> {
   if (!executor) return Promise.resolve();
-  return executor(view, lineNumber, resolved, target);
+  return executor(view, lineNumber, resolved, target, options);
+}
+
+export type TaskUnscheduleExecutor = (
+  view: EditorView,
+  lineNumber: number,
+  resolved: ResolvedListLine,
+) => Promise<void>;
+
+let unscheduleExecutor: TaskUnscheduleExecutor | null = null;
+
+export function registerTaskUnscheduleExecutor(fn: TaskUnscheduleExecutor | null): void {
+  unscheduleExecutor = fn;
+}
+
+export function runTaskUnschedule(view: EditorView, lineNumber: number, resolved: ResolvedListLine): Promise<void> {
+  if (!unscheduleExecutor) return Promise.resolve();
+  return unscheduleExecutor(view, lineNumber, resolved);
 }
@@ -1,20 +1,39 @@
 import { describe, expect, it } from 'vitest';
 import {
   buildDestinationLine,
+  buildScheduledChildLines,
   buildScheduledSourceLine,
+  buildSyncedDestinationLine,
+  buildUnscheduledChildLines,
+  buildUnscheduledSourceLine,
   cleanedTaskBody,
+  completedTaskLine,
   endOfISOWeekContaining,
+  findScheduleTokens,
+  findScheduledCopyLines,
   formatISODate,
+  formatMonthlyCalendarFilename,
+  formatQuarterlyCalendarFilename,
+  formatScheduleChipLabel,
   formatWeeklyCalendarFilename,
+  formatYearlyCalendarFilename,
+  indentedChildCount,
+  isScheduleTargetPast,
   isoWeekRefForRowContaining,
   markdownScheduleDateTag,
   markdownScheduleWeekTag,
   mondayOfNextISOWeek,
   nextIsoWeekRef,
   parseMarkdownISODateInput,
+  parseScheduleShortcut,
+  removeLineAt,
   startOfDisplayWeek,
   stripTrailingScheduleTokens,
+  scheduleTagForTarget,
   thisIsoWeekRef,
+  thisQuarterRef,
+  trailingScheduleShortcut,
+  trailingScheduleTarget,
 } from './task-schedule';
 import type { ResolvedListLine } from './live-preview';
 
@@ -24,6 +43,22 @@ describe('task-schedule', () => {
     expect(stripTrailingScheduleTokens('x >2026-03-20')).toBe('x');
     expect(stripTrailingScheduleTokens('a <2026-01-01')).toBe('a');
     expect(stripTrailingScheduleTokens('task >2026-W12')).toBe('task');
+    expect(stripTrailingScheduleTokens('keep latency >1000')).toBe('keep latency >1000');
+    expect(stripTrailingScheduleTokens('plan >2026-10')).toBe('plan');
+    expect(stripTrailingScheduleTokens('review >2026-Q4')).toBe('review');
+    expect(stripTrailingScheduleTokens('goal >2026')).toBe('goal');
+    expect(stripTrailingScheduleTokens('budget 2026')).toBe('budget 2026');
+  });
+
+  it('tags and names monthly, quarterly and yearly notes', () => {
+    expect(scheduleTagForTarget({ kind: 'month', year: 2026, month: 3 })).toBe('>2026-03');
+    expect(scheduleTagForTarget({ kind: 'quarter', year: 2026, quarter: 4 })).toBe('>2026-Q4');
+    expect(scheduleTagForTarget({ kind: 'year', year: 2027 })).toBe('>2027');
+    expect(formatMonthlyCalendarFilename(2026, 3)).toBe('2026-03.txt');
+    expect(formatQuarterlyCalendarFilename(2026, 4)).toBe('2026-Q4.txt');
+    expect(formatYearlyCalendarFilename(2027)).toBe('2027.txt');
+    expect(thisQuarterRef(new Date(2026, 9, 19))).toEqual({ year: 2026, quarter: 4 });
+    expect(thisQuarterRef(new Date(2026, 2, 31))).toEqual({ year: 2026, quarter: 1 });
   });
 
   it('builds source line with >today and concrete date', () => {
@@ -63,6 +98,34 @@ describe('task-schedule', () => {
     expect(buildDestinationLine('hello', '2026-03-15')).toBe('- [ ] hello <2026-03-15');
   });
 
+  it('builds synced source line with block ID before the date token', () => {
+    const resolved: ResolvedListLine = {
+      kind: 'task',
+      taskState: 'scheduled',
+      markerFrom: 0,
+      markerTo: 6,
+      taskBoxFrom: 2,
+      taskBoxTo: 5,
+    };
+    const d = new Date(2026, 2, 21);
+    expect(buildScheduledSourceLine('- [ ] hello', 0, { ...resolved, taskState: 'open' }, { kind: 'date', date: d }, 'abc123')).toBe(
+      '- [>] hello ^abc123 >2026-03-21',
+    );
+    expect(buildScheduledSourceLine('- [>] hello ^abc123 >2026-03-20', 0, resolved, { kind: 'date', date: d }, 'abc123')).toBe(
+      '- [>] hello ^abc123 >2026-03-21',
+    );
+  });
+
+  it('builds synced destination line that keeps the >date token', () => {
+    const d = new Date(2026, 2, 20);
+    expect(buildSyncedDestinationLine('hello ^abc123', 'abc123', { kind: 'date', date: d })).toBe(
+      '- [ ] hello ^abc123 >2026-03-20',
+    );
+    expect(buildSyncedDestinationLine('eggs', 'abc123', { kind: 'week', year: 2026, week: 12 }, 'checklist')).toBe(
+      '+ [ ] eggs ^abc123 >2026-W12',
+    );
+  });
+
   it('formatISODate is stable', () => {
     expect(formatISODate(new Date(2026, 0, 5))).toBe('2026-01-05');
   });
@@ -111,4 +174,204 @@ describe('task-schedule', () => {
     const rowStart = startOfDisplayWeek(sun, 'sunday');
     expect(isoWeekRefForRowContaining(rowStart, 'sunday')).toEqual({ year: 2026, week: 10 });
   });
+
+  it('completedTaskLine marks open, scheduled and shortcut tasks done', () => {
+    expect(completedTaskLine('- [>] call Sam >today')).toBe('- [x] call Sam >today');
+    expect(completedTaskLine('\t+ [ ] eggs >today')).toBe('\t+ [x] eggs >today');
+    expect(completedTaskLine('- call Sam >today')).toBe('- [x] call Sam >today');
+    expect(completedTaskLine('- [x] done already')).toBeNull();
+    expect(completedTaskLine('plain text >today')).toBeNull();
+  });
+
+  it('reads the target of a trailing schedule token', () => {
+    expect(trailingScheduleTarget('- [>] call Sam >today')).toEqual({ kind: 'today' });
+    expect(trailingScheduleTarget('- [>] x ^abc123 >2026-W43')).toEqual({ kind: 'week', year: 2026, week: 43 });
+    expect(trailingScheduleTarget('- [>] x >2026-10')).toEqual({ kind: 'month', year: 2026, month: 10 });
+    expect(trailingScheduleTarget('- [>] x >2026-Q4')).toEqual({ kind: 'quarter', year: 2026, quarter: 4 });
+    expect(trailingScheduleTarget('- [>] x >2027')).toEqual({ kind: 'year', year: 2027 });
+    const dated = trailingScheduleTarget('- [>] x >2026-10-20');
+    expect(dated?.kind === 'date' && formatISODate(dated.date)).toBe('2026-10-20');
+    expect(trailingScheduleTarget('- [>] x >2026-13')).toBeNull();
+    expect(trailingScheduleTarget('- [ ] no token')).toBeNull();
+    expect(trailingScheduleTarget('- [ ] keep latency >1000')).toBeNull();
+  });
+
+  it('finds schedule tokens and back-refs anywhere on a line', () => {
+    const tokens = findScheduleTokens('- [ ] call Sam <2026-10-19 ^abc123 >2026-W43');
+    expect(tokens.map((t) => [t.from, t.to, t.direction, t.token])).toEqual([
+      [15, 26, '<', '2026-10-19'],
+      [35, 44, '>', '2026-W43'],
+    ]);
+    expect(findScheduleTokens('- [>] x >today')[0].target).toEqual({ kind: 'today' });
+    expect(findScheduleTokens('a->2026-10-20 <today >2026-13 >2026-10-20x')).toEqual([]);
+    expect(findScheduleTokens('serve >5000 users')).toEqual([]);
+    expect(findScheduleTokens('goal >2027')[0].target).toEqual({ kind: 'year', year: 2027 });
+  });
+
+  it('labels date chips and tells past-due targets', () => {
+    const now = new Date(2026, 9, 19, 9, 0, 0);
+    expect(formatScheduleChipLabel({ kind: 'today' }, now)).toBe('Today');
+    expect(formatScheduleChipLabel({ kind: 'date', date: new Date(2026, 9, 20) }, now)).toBe('Tomorrow');
+    expect(formatScheduleChipLabel({ kind: 'date', date: new Date(2026, 9, 31) }, now)).toBe('Oct 31');
+    expect(formatScheduleChipLabel({ kind: 'date', date: new Date(2027, 0, 4) }, now)).toBe('Jan 4, 2027');
+    expect(formatScheduleChipLabel({ kind: 'week', year: 2026, week: 43 }, now)).toBe('W43');
+    expect(formatScheduleChipLabel({ kind: 'quarter', year: 2026, quarter: 4 }, now)).toBe('Q4 2026');
+
+    expect(isScheduleTargetPast({ kind: 'date', date: new Date(2026, 9, 18) }, now)).toBe(true);
+    expect(isScheduleTargetPast({ kind: 'date', date: new Date(2026, 9, 19) }, now)).toBe(false);
+    expect(isScheduleTargetPast({ kind: 'today' }, now)).toBe(false);
+    // W42 ends Sunday Oct 18; W43 is this week
+    expect(isScheduleTargetPast({ kind: 'week', year: 2026, week: 42 }, now)).toBe(true);
+    expect(isScheduleTargetPast({ kind: 'week', year: 2026, week: 43 }, now)).toBe(false);
+    expect(isScheduleTargetPast({ kind: 'month', year: 2026, month: 9 }, now)).toBe(true);
+    expect(isScheduleTargetPast({ kind: 'quarter', year: 2026, quarter: 4 }, now)).toBe(false);
+  });
+
+  it('finds the destination copy by block ID or by body and back-ref', () => {
+    const note = [
+      '# Tue, Oct 20, 2026',
+      '- [>] call Sam ^abc123 >2026-10-21',
+      '- [ ] call Sam ^abc123 >2026-10-20',
+      '- [ ] buy milk <2026-10-19',
+    ].join('\n');
+    expect(findScheduledCopyLines(note, { blockId: 'abc123', body: 'call Sam', backRefISO: null })).toEqual([2]);
+    expect(findScheduledCopyLines(note, { blockId: null, body: 'buy milk >2026-10-20', backRefISO: '2026-10-19' })).toEqual([3]);
+    expect(findScheduledCopyLines(note, { blockId: null, body: 'buy milk', backRefISO: '2026-10-18' })).toEqual([]);
+    expect(findScheduledCopyLines(note, { blockId: 'zzz999', body: 'call Sam', backRefISO: null })).toEqual([]);
+    expect(removeLineAt(note, 2).split('\n')).toHaveLength(3);
+  });
+
+  it('skips synced copies placed by hand and reports every candidate', () => {
+    const match = { blockId: 'abc123', body: 'call Sam', backRefISO: null };
+    const dragged = '# Tue, Oct 20, 2026\n- [ ] call Sam ^abc123\n\t- notes\n- [ ] call Sam ^abc123 >2026-10-20';
+    expect(findScheduledCopyLines(dragged, match)).toEqual([3]);
+    expect(findScheduledCopyLines(`${dragged}\n- [ ] call Sam ^abc123 >2026-10-20`, match)).toEqual([3, 4]);
+  });
+
+  it('unschedules a source line back to an open task', () => {
+    const resolved: ResolvedListLine = {
+      kind: 'task',
+      taskState: 'scheduled',
+      markerFrom: 2,
+      markerTo: 8,
+      taskBoxFrom: 4,
+      taskBoxTo: 7,
+    };
+    const line = '\t\t- [>] call Sam ^abc123 >2026-10-21';
+    expect(buildUnscheduledSourceLine(line, 0, resolved, false)).toBe('\t\t- [ ] call Sam');
+    expect(buildUnscheduledSourceLine(line, 0, resolved, true)).toBe('\t\t- [ ] call Sam ^abc123');
+    expect(buildUnscheduledSourceLine('+ [>] eggs >today', 0, { ...resolved, kind: 'checklist', markerFrom: 0, markerTo: 6 }, false))
+      .toBe('+ [ ] eggs');
+  });
+
+  it('finds the indented block under a task', () => {
+    const lines = [
+      '- [ ] parent',
+      '\t- [ ] child',
+      '',
+      '\t\tnote under child',
+      '    * spaced bullet',
+      '- [ ] sibling',
+    ];
+    expect(indentedChildCount(lines, 0)).toBe(4);
+    expect(indentedChildCount(lines, 1)).toBe(2);
+    expect(indentedChildCount(lines, 5)).toBe(0);
+    expect(indentedChildCount(['- [ ] a', '\t- b', ''], 0)).toBe(1);
+  });
+
+  it('schedules mixed children with their indent kept in the copy', () => {
+    const children = [
+      '\t\t- [ ] call Sam >2026-10-20',
+      '\t\t\t+ buy stamps',
+      '\t\t* context bullet',
+      '\t\tplain note ^abc123',
+      '\t\t- [x] already done',
+      '',
+      '\t\t\t- open shortcut',
+    ];
+    const ids = ['kid001', 'kid002', 'kid003'];
+    const target = { kind: 'date' as const, date: new Date(2026, 9, 21) };
+    const { source, destination } = buildScheduledChildLines(children, '\t', target, () => ids.shift()!);
+    expect(source).toEqual([
+      '\t\t- [>] call Sam ^kid001 >2026-10-21',
+      '\t\t\t+ [>] buy stamps ^kid002 >2026-10-21',
+      '\t\t* context bullet',
+      '\t\tplain note ^abc123',
+      '\t\t- [x] already done',
+      '',
+      '\t\t\t- [>] open shortcut ^kid003 >2026-10-21',
+    ]);
+    expect(destination).toEqual([
+      '\t- [ ] call Sam ^kid001 >2026-10-21',
+      '\t\t+ [ ] buy stamps ^kid002 >2026-10-21',
+      '\t* context bullet',
+      '\tplain note ^abc123',
+      '\t- [x] already done',
+      '',
+      '\t\t- [ ] open shortcut ^kid003 >2026-10-21',
+    ]);
+  });
+
+  it('syncs subtask copies through block IDs, with no back-ref to the source note', () => {
+    // A project-note source has no date to point a `<date` back-ref at
+    const children = ['\t- [>] draft outline ^def456 >2026-W43', '\t+ [ ] book room'];
+    const mint = () => 'ghi789';
+    const week = buildScheduledChildLines(children, '', { kind: 'week', year: 2026, week: 44 }, mint);
+    expect(week.source).toEqual(['\t- [>] draft outline ^def456 >2026-W44', '\t+ [>] book room ^ghi789 >2026-W44']);
+    expect(week.destination).toEqual(['\t- [ ] draft outline ^def456 >2026-W44', '\t+ [ ] book room ^ghi789 >2026-W44']);
+    expect(week.destination.some((line) => line.includes('<'))).toBe(false);
+
+    const today = buildScheduledChildLines(children, '', { kind: 'today' }, () => {
+      throw new Error('>today mints no IDs');
+    });
+    expect(today.source).toEqual(['\t- [>] draft outline ^def456 >today', '\t+ [>] book room >today']);
+  });
+
+  it('reopens scheduled children on unschedule', () => {
+    expect(buildUnscheduledChildLines([
+      '\t- [>] call Sam >2026-W43',
+      '\t\t+ [>] stamps >2026-W43',
+      '\t* bullet',
+      '\t- [x] done',
+    ])).toEqual([
+      '\t- [ ] call Sam',
+      '\t\t+ [ ] stamps',
+      '\t* bullet',
+      '\t- [x] done',
+    ]);
+  });
+
+  it('converts typed schedule shortcuts to concrete targets', () => {
+    // Monday, Oct 19, 2026
+    const now = new Date(2026, 9, 19, 9, 30);
+    const iso = (raw: string) => {
+      const t = parseScheduleShortcut(raw, now);
+      return t?.kind === 'date' ? formatISODate(t.date) : t;
+    };
+    expect(iso('tomorrow')).toBe('2026-10-20');
+    expect(iso('+3d')).toBe('2026-10-22');
+    expect(iso('+1w')).toBe('2026-10-26');
+    expect(iso('fri')).toBe('2026-10-23');
+    expect(iso('Monday')).toBe('2026-10-26');
+    expect(iso('oct 31')).toBe('2026-10-31');
+    expect(iso('31 Oct')).toBe('2026-10-31');
+    expect(iso('sept 1')).toBe('2027-09-01');
+    expect(iso('oct 1')).toBe('2027-10-01');
+    expect(iso('nextweek')).toEqual({ kind: 'week', year: 2026, week: 44 });
+    expect(iso('nextmonth')).toEqual({ kind: 'month', year: 2026, month: 11 });
+    expect(iso('today')).toBeNull();
+    expect(iso('feb 30')).toBeNull();
+    expect(iso('fr')).toBeNull();
+    expect(iso('2026-10-20')).toBeNull();
+  });
+
+  it('finds a shortcut at the end of the typed text', () => {
+    const now = new Date(2026, 9, 19);
+    const hit = trailingScheduleShortcut('- [ ] call Sam >oct 31', now);
+    expect(hit?.from).toBe(15);
+    expect(hit?.target.kind === 'date' && formatISODate(hit.target.date)).toBe('2026-10-31');
+    expect(trailingScheduleShortcut('- [ ] call Sam >oct', now)).toBeNull();
+    expect(trailingScheduleShortcut('- [ ] a->b', now)).toBeNull();
+    expect(trailingScheduleShortcut('- [ ] call Sam >today', now)).toBeNull();
+  });
 });
@@ -1,9 +1,11 @@
 /**
- * NotePlan-style task scheduling: source line `- [>] body >YYYY-MM-DD`, `>today`, or `>YYYY-Www`,
- * destination daily/weekly line `- [ ] body <YYYY-MM-DD>` (non-synced copy).
+ * NotePlan-style task scheduling: source line `- [>] body >YYYY-MM-DD`, `>today`, `>YYYY-Www`,
+ * `>YYYY-MM`, `>YYYY-Qn` or `>YYYY`, destination calendar note line `- [ ] body <YYYY-MM-DD>` (non-synced copy) or
+ * `- [ ] body ^blockid >YYYY-MM-DD` (synced copy; see synced-lines.ts).
  */
 
 import type { ResolvedListLine } from './live-preview';
+import { findBlockId, stripBlockId } from './synced-lines';
 
 /**
  * First day of the week shown in the schedule calendar grid.
@@ -15,7 +17,11 @@ export const CALENDAR_WEEK_STARTS_ON: 'sunday' | 'monday' = 'sunday';
 export type ScheduleTarget =
   | { kind: 'today' }
   | { kind: 'date'; date: Date }
-  | { kind: 'week'; year: number; week: number };
+  | { kind: 'week'; year: number; week: number }
+  /** `month` is 1–12. */
+  | { kind: 'month'; year: number; month: number }
+  | { kind: 'quarter'; year: number; quarter: number }
+  | { kind: 'year'; year: number };
 
 export function formatISODate(d: Date): string {
   const y = d.getFullYear();
@@ -34,11 +40,39 @@ export function markdownScheduleWeekTag(year: number, week: number): string {
   return `>${year}-W${String(week).padStart(2, '0')}`;
 }
 
+/** Markdown token for a monthly note (`Calendar/YYYY-MM.txt`); `month` is 1–12. */
+export function markdownScheduleMonthTag(year: number, month: number): string {
+  return `>${year}-${String(month).padStart(2, '0')}`;
+}
+
+/** Markdown token for a quarterly note (`Calendar/YYYY-Qn.txt`). */
+export function markdownScheduleQuarterTag(year: number, quarter: number): string {
+  return `>${year}-Q${quarter}`;
+}
+
+/** Markdown token for a yearly note (`Calendar/YYYY.txt`). */
+export function markdownScheduleYearTag(year: number): string {
+  return `>${year}`;
+}
+
 /** Filename for a weekly calendar note (same as NotePlan). */
 export function formatWeeklyCalendarFilename(year: number, week: number): string {
   return `${year}-W${String(week).padStart(2, '0')}.txt`;
 }
 
+/** Filename for a monthly calendar note; `month` is 1–12. */
+export function formatMonthlyCalendarFilename(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}.txt`;
+}
+
+export function formatQuarterlyCalendarFilename(year: number, quarter: number): string {
+  return `${year}-Q${quarter}.txt`;
+}
+
+export function formatYearlyCalendarFilename(year: number): string {
+  return `${year}.txt`;
+}
+
 export function formatScheduleMenuDate(d: Date): string {
   return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
 }
@@ -115,6 +149,14 @@ export function nextIsoWeekRef(d: Date = new Date()): { year: number; week: numb
   return getSchedulingISOWeek(nextMon);
 }
 
+export function thisMonthRef(d: Date = new Date()): { year: number; month: number } {
+  return { year: d.getFullYear(), month: d.getMonth() + 1 };
+}
+
+export function thisQuarterRef(d: Date = new Date()): { year: number; quarter: number } {
+  return { year: d.getFullYear(), quarter: Math.floor(d.getMonth() / 3) + 1 };
+}
+
 /**
  * Parse a custom field: optional leading `>`, then strict YYYY-MM-DD.
  * Returns a local calendar date at noon, or null if invalid.
@@ -128,7 +170,78 @@ export function parseMarkdownISODateInput(raw: string): Date | null {
   return dt;
 }
 
-/** Remove trailing >today, >YYYY-MM-DD, >YYYY-Www, or <YYYY-MM-DD from task body text. */
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/** Index in `names` of a full name or an abbreviation of at least three letters, or -1. */
+function nameIndex(names: readonly string[], word: string): number {
+  const w = word.toLowerCase();
+  if (w.length < 3) return -1;
+  return names.findIndex((n) => n.startsWith(w));
+}
+
+/**
+ * Concrete target for a shortcut typed after `>` (without the `>`): `tomorrow`, `+3d`, `+1w`,
+ * `thisweek`, `nextweek`, `nextmonth`, a weekday (`fri`, `friday`: the next one after today) or
+ * a month and day (`oct 31`, `31 oct`: this year, or next year once that day has passed).
+ * Null for anything else, including `today` (which stays literal) and ISO tokens.
+ */
+export function parseScheduleShortcut(raw: string, now: Date = new Date()): ScheduleTarget | null {
+  const t = raw.trim().toLowerCase().replace(/\s+/g, ' ');
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0);
+  if (t === 'tomorrow') return { kind: 'date', date: addDaysCalendar(today, 1) };
+  if (t === 'thisweek') return { kind: 'week', ...thisIsoWeekRef(today) };
+  if (t === 'nextweek') return { kind: 'week', ...nextIsoWeekRef(today) };
+  if (t === 'nextmonth') return { kind: 'month', ...thisMonthRef(new Date(today.getFullYear(), today.getMonth() + 1, 1)) };
+
+  const relative = t.match(/^\+(\d{1,3})([dw])$/);
+  if (relative) {
+    const n = Number(relative[1]);
+    return { kind: 'date', date: addDaysCalendar(today, relative[2] === 'w' ? n * 7 : n) };
+  }
+
+  if (/^[a-z]+$/.test(t)) {
+    const dow = nameIndex(WEEKDAY_NAMES, t);
+    if (dow < 0) return null;
+    const ahead = (dow - today.getDay() + 7) % 7 || 7;
+    return { kind: 'date', date: addDaysCalendar(today, ahead) };
+  }
+
+  const monthFirst = t.match(/^([a-z]+) (\d{1,2})$/);
+  const dayFirst = t.match(/^(\d{1,2}) ([a-z]+)$/);
+  if (!monthFirst && !dayFirst) return null;
+  const month = nameIndex(MONTH_NAMES, monthFirst ? monthFirst[1] : dayFirst![2]);
+  const day = Number(monthFirst ? monthFirst[2] : dayFirst![1]);
+  if (month < 0) return null;
+  for (const year of [today.getFullYear(), today.getFullYear() + 1]) {
+    const date = new Date(year, month, day, 12, 0, 0);
+    if (date.getMonth() !== month) return null;
+    if (date >= today) return { kind: 'date', date };
+  }
+  return null;
+}
+
+/**
+ * A schedule shortcut at the end of `textBeforeCursor` (e.g. `call Sam >fri`): the offset of its
+ * `>` and the concrete target, or null when the text does not end in one.
+ */
+export function trailingScheduleShortcut(
+  textBeforeCursor: string,
+  now: Date = new Date(),
+): { from: number; target: ScheduleTarget } | null {
+  const m = textBeforeCursor.match(/(^|\s)>([a-z]+ \d{1,2}|\d{1,2} [a-z]+|[+a-z0-9]+)$/i);
+  if (!m || m.index === undefined) return null;
+  const target = parseScheduleShortcut(m[2], now);
+  return target ? { from: m.index + m[1].length, target } : null;
+}
+
+/**
+ * Remove trailing >today, >YYYY-MM-DD, >YYYY-Www, >YYYY-MM, >YYYY-Qn, >YYYY, or <YYYY-MM-DD from task
+ * body text. A bare `>YYYY` counts only for 19xx/20xx, so `latency >1000` keeps its number.
+ */
 export function stripTrailingScheduleTokens(body: string): string {
   let s = body.trimEnd();
   for (let i = 0; i < 6; i++) {
@@ -136,6 +249,8 @@ export function stripTrailingScheduleTokens(body: string): string {
       .replace(/\s+<\d{4}-\d{2}-\d{2}\s*$/i, '')
       .replace(/\s+>\d{4}-W\d{2}\b\s*$/i, '')
       .replace(/\s+>\d{4}-\d{2}-\d{2}\s*$/i, '')
+      .replace(/\s+>\d{4}(?:-\d{2}|-Q[1-4])\s*$/i, '')
+      .replace(/\s+>(?:19|20)\d{2}\s*$/, '')
       .replace(/\s+>today\s*$/i, '')
       .trimEnd();
     if (next === s) break;
@@ -144,6 +259,173 @@ export function stripTrailingScheduleTokens(body: string): string {
   return s.trimEnd();
 }
 
+/** Target of a schedule token without its `>`: `today`, `YYYY-MM-DD`, `YYYY-Www`, `YYYY-MM`, `YYYY-Qn` or `YYYY`. */
+export function parseScheduleToken(token: string): ScheduleTarget | null {
+  if (token.toLowerCase() === 'today') return { kind: 'today' };
+  if (!/^\d{4}(?:-\d{2}-\d{2}|-W\d{2}|-Q[1-4]|-\d{2})?$/i.test(token)) return null;
+  const year = Number(token.slice(0, 4));
+  const rest = token.slice(5);
+  if (rest === '') return { kind: 'year', year };
+  if (/^W\d{2}$/i.test(rest)) {
+    const week = Number(rest.slice(1));
+    return week >= 1 && week <= 53 ? { kind: 'week', year, week } : null;
+  }
+  if (/^Q[1-4]$/i.test(rest)) return { kind: 'quarter', year, quarter: Number(rest.slice(1)) };
+  if (/^\d{2}$/.test(rest)) {
+    const month = Number(rest);
+    return month >= 1 && month <= 12 ? { kind: 'month', year, month } : null;
+  }
+  const date = parseMarkdownISODateInput(token);
+  return date ? { kind: 'date', date } : null;
+}
+
+/**
+ * Target named by the last schedule token on a line (`>today`, `>YYYY-MM-DD`, `>YYYY-Www`,
+ * `>YYYY-MM`, `>YYYY-Qn`, `>YYYY` for 19xx/20xx), or null when the line does not end in one.
+ */
+export function trailingScheduleTarget(lineText: string): ScheduleTarget | null {
+  const m = lineText.match(/(?:^|\s)>(today|\d{4}(?:-\d{2}-\d{2}|-W\d{2}|-Q[1-4]|-\d{2})|(?:19|20)\d{2})\s*$/i);
+  return m ? parseScheduleToken(m[1]) : null;
+}
+
+/** A schedule token (`>…`) or back-ref (`<YYYY-MM-DD`) found in a line. */
+export interface ScheduleTokenMatch {
+  /** Offsets of the whole token, `>`/`<` included, in the line. */
+  from: number;
+  to: number;
+  direction: '>' | '<';
+  /** Token text without the `>`/`<`. */
+  token: string;
+  target: ScheduleTarget;
+}
+
+// A bare year only for 19xx/20xx, so `>5000 users` stays plain text
+const SCHEDULE_TOKEN_RE = /(?:^|(?<=\s))([<>])(today|\d{4}(?:-\d{2}-\d{2}|-W\d{2}|-Q[1-4]|-\d{2})|(?:19|20)\d{2})(?=\s|$)/gi;
+
+/** Every schedule token and back-ref on a line, in order. Back-refs only name days. */
+export function findScheduleTokens(lineText: string): ScheduleTokenMatch[] {
+  const found: ScheduleTokenMatch[] = [];
+  for (const m of lineText.matchAll(SCHEDULE_TOKEN_RE)) {
+    const direction = m[1] as '>' | '<';
+    const target = parseScheduleToken(m[2]);
+    if (!target || (direction === '<' && target.kind !== 'date')) continue;
+    const from = m.index!;
+    found.push({ from, to: from + m[0].length, direction, token: m[2], target });
+  }
+  return found;
+}
+
+/** Last day a target covers (noon); null for `>today`, which always means the current day. */
+function lastDayOfTarget(target: ScheduleTarget): Date | null {
+  switch (target.kind) {
+    case 'today': return null;
+    case 'date': return target.date;
+    case 'week': return addDaysCalendar(mondayOfISOWeekNumber(target.year, target.week), 6);
+    case 'month': return new Date(target.year, target.month, 0, 12, 0, 0);
+    case 'quarter': return new Date(target.year, target.quarter * 3, 0, 12, 0, 0);
+    case 'year': return new Date(target.year, 11, 31, 12, 0, 0);
+  }
+}
+
+/** True when the whole period of `target` lies before `today` (an open task scheduled there is overdue). */
+export function isScheduleTargetPast(target: ScheduleTarget, today: Date = new Date()): boolean {
+  const last = lastDayOfTarget(target);
+  // ISO strings compare in date order
+  return last !== null && formatISODate(last) < formatISODate(today);
+}
+
+/** Compact label for a date chip: `Today`, `Tomorrow`, `Oct 20`, `W43`, `Oct 2026`, `Q4 2026`, `2027`. */
+export function formatScheduleChipLabel(target: ScheduleTarget, now: Date = new Date()): string {
+  switch (target.kind) {
+    case 'today': return 'Today';
+    case 'date': {
+      const iso = formatISODate(target.date);
+      if (iso === formatISODate(now)) return 'Today';
+      if (iso === formatISODate(addDaysCalendar(now, 1))) return 'Tomorrow';
+      if (iso === formatISODate(addDaysCalendar(now, -1))) return 'Yesterday';
+      return target.date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        ...(target.date.getFullYear() !== now.getFullYear() ? { year: 'numeric' } : {}),
+      });
+    }
+    case 'week': {
+      const current = getSchedulingISOWeek(now).year;
+      return target.year === current ? `W${target.week}` : `${target.year}-W${target.week}`;
+    }
+    case 'month':
+      return new Date(target.year, target.month - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    case 'quarter': return `Q${target.quarter} ${target.year}`;
+    case 'year': return String(target.year);
+  }
+}
+
+/** What identifies a scheduled task's copy in its destination note. */
+export interface ScheduledCopyMatch {
+  /** Synced copies share the source's `^blockid`. */
+  blockId: string | null;
+  /** Source task body; legacy copies (`- [ ] body <YYYY-MM-DD`) are matched by body and back-ref. */
+  body: string;
+  /** Required `<date` of a legacy copy (the source daily note's date); null accepts any. */
+  backRefISO: string | null;
+}
+
+const COPY_LINE_RE = /^\s*[-+] \[([ x\-])\] (.*)$/;
+const BACK_REF_RE = /\s<(\d{4}-\d{2}-\d{2})\s*$/;
+
+function comparableBody(body: string): string {
+  return stripTrailingScheduleTokens(stripBlockId(body)).trim();
+}
+
+/**
+ * 0-based indexes of the lines in `text` that look like the destination copy of a scheduled task.
+ * Scheduled (`[>]`) lines are never copies, so a source in the same note is skipped; a synced
+ * copy must still end in a schedule token, as the scheduler wrote it, so a copy placed by hand
+ * (e.g. dragged from a pane) without one is left out. Callers remove a copy only when exactly
+ * one line matches.
+ */
+export function findScheduledCopyLines(text: string, match: ScheduledCopyMatch): number[] {
+  const lines = text.split('\n');
+  const body = comparableBody(match.body);
+  const found: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(COPY_LINE_RE);
+    if (!m) continue;
+    if (match.blockId) {
+      if (findBlockId(lines[i]) === match.blockId && trailingScheduleTarget(lines[i])) found.push(i);
+      continue;
+    }
+    const backRef = m[2].match(BACK_REF_RE);
+    if (!backRef || (match.backRefISO && backRef[1] !== match.backRefISO)) continue;
+    if (comparableBody(m[2]) === body) found.push(i);
+  }
+  return found;
+}
+
+/** `text` without `count` lines starting at 0-based line `index`. */
+export function removeLineAt(text: string, index: number, count = 1): string {
+  const lines = text.split('\n');
+  lines.splice(index, count);
+  return lines.join('\n');
+}
+
+/**
+ * Source line with its schedule undone: open (`[ ]`) again, trailing schedule tokens removed.
+ * The `^blockid` stays only with `keepBlockId` (other synced copies still exist).
+ */
+export function buildUnscheduledSourceLine(
+  lineText: string,
+  lineFrom: number,
+  resolved: ResolvedListLine,
+  keepBlockId: boolean,
+): string {
+  const lead = lineText.match(/^(\s*)/)?.[1] ?? '';
+  const raw = stripTrailingScheduleTokens(rawBodyAfterMarker(lineText, lineFrom, resolved)).trim();
+  const body = keepBlockId ? raw : stripBlockId(raw);
+  const bullet = resolved.kind === 'checklist' ? '+ ' : '- ';
+  return `${lead}${bullet}[ ] ${body}`.trimEnd();
+}
+
 /**
  * Text after the list marker on this line (may include schedule tokens).
  * `lineText` must be the full line; `lineFrom` is the line's document offset.
@@ -158,20 +440,33 @@ export function cleanedTaskBody(lineText: string, lineFrom: number, resolved: Re
   return stripTrailingScheduleTokens(rawBodyAfterMarker(lineText, lineFrom, resolved));
 }
 
-/** Full replacement line for the source note (task or checklist, always `[>]` when dated). */
+/** Markdown token written on the source line for a schedule target. */
+export function scheduleTagForTarget(target: ScheduleTarget): string {
+  if (target.kind === 'today') return '>today';
+  if (target.kind === 'date') return markdownScheduleDateTag(target.date);
+  if (target.kind === 'week') return markdownScheduleWeekTag(target.year, target.week);
+  if (target.kind === 'month') return markdownScheduleMonthTag(target.year, target.month);
+  if (target.kind === 'quarter') return markdownScheduleQuarterTag(target.year, target.quarter);
+  return markdownScheduleYearTag(target.year);
+}
+
+/**
+ * Full replacement line for the source note (task or checklist, always `[>]` when dated).
+ * With `blockId`, the line becomes a synced line: `^blockid` goes before the `>date` token.
+ */
 export function buildScheduledSourceLine(
   lineText: string,
   lineFrom: number,
   resolved: ResolvedListLine,
   target: ScheduleTarget,
+  blockId?: string,
 ): string {
   const lead = lineText.match(/^(\s*)/)?.[1] ?? '';
-  const body = cleanedTaskBody(lineText, lineFrom, resolved);
+  const raw = rawBodyAfterMarker(lineText, lineFrom, resolved);
+  let body = blockId ? stripTrailingScheduleTokens(stripBlockId(raw)) : cleanedTaskBody(lineText, lineFrom, resolved);
+  if (blockId) body = body.length > 0 ? `${body} ^${blockId}` : `^${blockId}`;
   const bullet = resolved.kind === 'checklist' ? '+ ' : '- ';
-  let tag: string;
-  if (target.kind === 'today') tag = '>today';
-  else if (target.kind === 'date') tag = markdownScheduleDateTag(target.date);
-  else tag = markdownScheduleWeekTag(target.year, target.week);
+  const tag = scheduleTagForTarget(target);
   const middle = body.length > 0 ? `${bullet}[>] ${body} ${tag}` : `${bullet}[>] ${tag}`;
   return `${lead}${middle}`.trimEnd();
 }
@@ -181,3 +476,103 @@ export function buildDestinationLine(taskBody: string, sourceBackRefISO: string)
   const b = stripTrailingScheduleTokens(taskBody).trim();
   return `- [ ] ${b} <${sourceBackRefISO}`;
 }
+
+/**
+ * Synced copy for the target calendar note: same body, `^blockid` and `>date` as the source,
+ * but open (`[ ]`). No `<date` back-ref — the block ID links the copies.
+ */
+export function buildSyncedDestinationLine(
+  taskBody: string,
+  blockId: string,
+  target: ScheduleTarget,
+  kind: 'task' | 'checklist' = 'task',
+): string {
+  const b = stripTrailingScheduleTokens(stripBlockId(taskBody)).trim();
+  const bullet = kind === 'checklist' ? '+' : '-';
+  const middle = b.length > 0 ? `${b} ^${blockId}` : `^${blockId}`;
+  return `${bullet} [ ] ${middle} ${scheduleTagForTarget(target)}`;
+}
+
+/** Leading whitespace width with tabs as four columns (subtask structure). */
+export function indentWidth(lineText: string): number {
+  const lead = lineText.match(/^\s*/)?.[0] ?? '';
+  let width = 0;
+  for (const ch of lead) width += ch === '\t' ? 4 : 1;
+  return width;
+}
+
+/**
+ * How many lines after `lines[index]` belong to its indented block (subtasks, bullets and notes
+ * indented deeper than it). Blank lines count only when a deeper line follows them.
+ */
+export function indentedChildCount(lines: readonly string[], index: number): number {
+  const parent = indentWidth(lines[index]);
+  let count = 0;
+  for (let i = index + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    if (indentWidth(lines[i]) <= parent) break;
+    count = i - index;
+  }
+  return count;
+}
+
+// Child line split: (1) indent, (2) `-`/`+`, (3) box char if bracketed, (4) body
+const CHILD_TASK_RE = /^(\s*)([-+]) (?:\[([ x\->])\] )?(.*)$/;
+
+/**
+ * Source and copy text for the indented children of a task being scheduled (the parent line
+ * goes through `buildScheduledSourceLine` / `buildSyncedDestinationLine`). Open and already
+ * scheduled tasks and checklist items become `[>]` + the target's token on the source and a
+ * synced `[ ]` copy, sharing the child's `^blockid` (`mintBlockId` supplies one when it has none;
+ * not called for `>today`, which writes no copies); bullets, notes and closed tasks are copied as
+ * they are. Copies keep their indent relative to `parentLead`.
+ */
+export function buildScheduledChildLines(
+  children: readonly string[],
+  parentLead: string,
+  target: ScheduleTarget,
+  mintBlockId: () => string,
+): { source: string[]; destination: string[] } {
+  const tag = scheduleTagForTarget(target);
+  const source: string[] = [];
+  const destination: string[] = [];
+  for (const line of children) {
+    const lead = line.match(/^\s*/)?.[0] ?? '';
+    const relLead = lead.startsWith(parentLead) ? lead.slice(parentLead.length) : lead;
+    const m = line.match(CHILD_TASK_RE);
+    if (!m || m[3] === 'x' || m[3] === '-') {
+      source.push(line);
+      destination.push(line.trim() === '' ? '' : relLead + line.slice(lead.length));
+      continue;
+    }
+    let body = stripTrailingScheduleTokens(m[4]).trim();
+    const blockId = target.kind === 'today' ? null : findBlockId(body) ?? mintBlockId();
+    if (blockId && !findBlockId(body)) body = body ? `${body} ^${blockId}` : `^${blockId}`;
+    source.push(`${m[1]}${m[2]} [>] ${body ? `${body} ` : ''}${tag}`);
+    if (blockId) {
+      destination.push(relLead + buildSyncedDestinationLine(body, blockId, target, m[2] === '+' ? 'checklist' : 'task'));
+    }
+  }
+  return { source, destination };
+}
+
+/** Children of an unscheduled task: scheduled (`[>]`) items reopen without their schedule token. */
+export function buildUnscheduledChildLines(children: readonly string[]): string[] {
+  return children.map((line) => {
+    const m = line.match(CHILD_TASK_RE);
+    if (!m || m[3] !== '>') return line;
+    return `${m[1]}${m[2]} [ ] ${stripTrailingScheduleTokens(m[4]).trim()}`;
+  });
+}
+
+/**
+ * Same line marked done (`[x]`), for write-backs outside the editor (e.g. the `>today` panel).
+ * Handles `[ ]`, `[>]` and shortcut `- ` / `+ ` tasks; returns null for lines that are not open tasks.
+ */
+export function completedTaskLine(lineText: string): string | null {
+  const boxed = lineText.match(/^(\s*[-+] )\[[ >]\]/);
+  if (boxed) return `${boxed[1]}[x]${lineText.slice(boxed[0].length)}`;
+  const shortcut = lineText.match(/^(\s*[-+] )(?!\[[x\-> ]\])/);
+  if (shortcut) return `${shortcut[1]}[x] ${lineText.slice(shortcut[0].length)}`;
+  return null;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  highlightSegments,
+  lineMatchesQuery,
+  noteMayMatchQuery,
+  parseQueryDate,
+  parseSearchQuery,
+  queryHighlightRegExp,
+  queryIncludesDone,
+  textQueryRegExp,
+} from './text-search';
+
+describe('textQueryRegExp', () => {
+  it('matches the literal query case-insensitively', () => {
+    const re = textQueryRegExp('  Q3 (plan)? ')!;
+    expect(re.test('- [ ] draft the q3 (plan)? doc')).toBe(true);
+    expect(re.test('q3 plan')).toBe(false);
+  });
+
+  it('lets inner whitespace match any run of whitespace', () => {
+    expect(textQueryRegExp('budget review')!.test('Budget  review notes')).toBe(true);
+  });
+
+  it('returns null for an empty query', () => {
+    expect(textQueryRegExp('   ')).toBeNull();
+  });
+});
+
+describe('highlightSegments', () => {
+  it('splits a line around every match', () => {
+    expect(highlightSegments('Call Ann, then ann again', /ann/i)).toEqual([
+      { text: 'Call ', match: false },
+      { text: 'Ann', match: true },
+      { text: ', then ', match: false },
+      { text: 'ann', match: true },
+      { text: ' again', match: false },
+    ]);
+  });
+
+  it('returns the whole line when nothing matches', () => {
+    expect(highlightSegments('nothing here', /zzz/i)).toEqual([{ text: 'nothing here', match: false }]);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  it('parses filters, phrases, tags and negation', () => {
+    const q = parseSearchQuery('is:open @AngelicaBunyi folder:Work after:2026-09-01 has:schedule #blocked "exact phrase" -excluded', now);
+    expect(q.terms.map((t) => [t.kind, t.negated])).toEqual([
+      ['is', false],
+      ['mention', false],
+      ['folder', false],
+      ['after', false],
+      ['has', false],
+      ['hashtag', false],
+      ['phrase', false],
+      ['text', true],
+    ]);
+  });
+
+  it('treats unknown keys and bad filter values as text', () => {
+    const q = parseSearchQuery('foo:bar is:nope after:someday', now);
+    expect(q.terms.map((t) => t.kind)).toEqual(['text', 'text', 'text']);
+    expect(q.terms.map((t) => ('re' in t ? t.re.source : ''))).toEqual(['foo:bar', 'is:nope', 'after:someday']);
+  });
+
+  it('resolves relative dates from the start of today', () => {
+    expect(parseQueryDate('-90d', now)).toEqual(new Date(2026, 6, 21));
+    expect(parseQueryDate('today', now)).toEqual(new Date(2026, 9, 19));
+    expect(parseQueryDate('2026-02-30', now)).toBeNull();
+  });
+
+  it('reports when done lines are requested', () => {
+    expect(queryIncludesDone(parseSearchQuery('is:done report'))).toBe(true);
+    expect(queryIncludesDone(parseSearchQuery('-is:done report'))).toBe(false);
+  });
+});
+
+describe('lineMatchesQuery', () => {
+  const now = new Date(2026, 9, 19);
+  const match = (query: string, line: string, noteDate: Date | null = null, isChecklist = false) =>
+    lineMatchesQuery(parseSearchQuery(query, now), line, isChecklist, noteDate);
+
+  it('combines task state, mention and negated words', () => {
+    expect(match('is:open @Ann', '- [ ] prep 1:1 with @Ann')).toBe(true);
+    expect(match('is:open @Ann', '- prep 1:1 with @Ann')).toBe(true);
+    expect(match('is:open @Ann', '- [x] prep 1:1 with @Ann')).toBe(false);
+    expect(match('is:open @Ann', '- [ ] prep 1:1 with @Annabel')).toBe(false);
+    expect(match('@Ann -prep', '- [ ] prep 1:1 with @Ann')).toBe(false);
+  });
+
+  it('matches every bare word anywhere on the line', () => {
+    expect(match('budget review', 'review the Q3 budget')).toBe(true);
+    expect(match('"budget review"', 'review the Q3 budget')).toBe(false);
+  });
+
+  it('dates lines by their schedule, then the note date', () => {
+    const sept = new Date(2026, 8, 15);
+    expect(match('after:2026-09-01', '- [ ] call', sept)).toBe(true);
+    expect(match('after:2026-10-01', '- [ ] call', sept)).toBe(false);
+    expect(match('after:2026-10-01', '- [ ] call >2026-10-05', sept)).toBe(true);
+    expect(match('before:2026-09-15', '- [ ] call', sept)).toBe(false);
+    expect(match('after:-90d', '- [ ] call', null)).toBe(false);
+  });
+
+  it('checks has: features and checklist state', () => {
+    expect(match('has:schedule', '- [>] ship it >2026-W43')).toBe(true);
+    expect(match('has:schedule', '- [ ] keep latency >1000')).toBe(false);
+    expect(match('has:sync', '- [ ] ship it ^ab12cd >2026-10-20')).toBe(true);
+    expect(match('-has:link', 'see [[Plan]]')).toBe(false);
+    expect(match('is:checklist', '+ [ ] pack charger', null, true)).toBe(true);
+    expect(match('is:task', '+ [ ] pack charger', null, true)).toBe(false);
+  });
+});
+
+describe('noteMayMatchQuery', () => {
+  const note = { path: 'Notes/Work/Clients/Acme.txt', mentions: ['@Ann'], hashtags: [] };
+
+  it('filters on folder and indexed mentions', () => {
+    expect(noteMayMatchQuery(parseSearchQuery('folder:Work @ann'), note)).toBe(true);
+    expect(noteMayMatchQuery(parseSearchQuery('folder:Work/Clients'), note)).toBe(true);
+    expect(noteMayMatchQuery(parseSearchQuery('-folder:Work'), note)).toBe(false);
+    expect(noteMayMatchQuery(parseSearchQuery('folder:Calendar'), note)).toBe(false);
+    expect(noteMayMatchQuery(parseSearchQuery('@Bob'), note)).toBe(false);
+    expect(noteMayMatchQuery(parseSearchQuery('#blocked'), note)).toBe(false);
+  });
+});
+
+describe('queryHighlightRegExp', () => {
+  it('highlights positive text terms only', () => {
+    const re = queryHighlightRegExp(parseSearchQuery('is:open budget -draft @Ann'))!;
+    expect(highlightSegments('budget draft for @Ann', re).filter((s) => s.match).map((s) => s.text))
+      .toEqual(['budget', '@Ann']);
+    expect(queryHighlightRegExp(parseSearchQuery('is:open'))).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Full-text search helpers: the query language, per-note and per-line matchers, and splitting
+ * a line into plain/matched segments for highlighted result rendering. The search itself
+ * (reading files) runs in note-index.ts.
+ *
+ * Query syntax — space-separated terms, all of which must match (a leading `-` negates any term):
+ *   word              line contains the word (case-insensitive)
+ *   "exact phrase"    line contains the phrase
+ *   @name  #tag       line contains the mention / hashtag
+ *   is:open|done|cancelled|scheduled|task|checklist
+ *   has:schedule|link|mention|tag|sync
+ *   folder:Work       note lives under Notes/Work (`folder:Calendar` for daily/weekly notes)
+ *   after:DATE before:DATE   line date on/after, or before, DATE (`YYYY-MM-DD`, `today`, `-90d`, `-4w`)
+ * A line's date is its `>YYYY-MM-DD` schedule, else the calendar note's date, else the note's mtime.
+ */
+
+import { parseMarkdownISODateInput } from './task-schedule';
+
+/** One run of a result line; `match` runs are wrapped in `<mark>` by the renderer. */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive matcher for the literal query (surrounding whitespace ignored, inner
+ * whitespace runs match any whitespace). Null for an empty query.
+ */
+export function textQueryRegExp(query: string): RegExp | null {
+  const q = query.trim();
+  if (!q) return null;
+  return new RegExp(q.split(/\s+/).map(escapeRegExp).join('\\s+'), 'i');
+}
+
+/** Split `text` into alternating plain and matched segments for every match of `re`. */
+export function highlightSegments(text: string, re: RegExp): HighlightSegment[] {
+  const flags = re.flags.includes('g') ? re.flags : `${re.flags}g`;
+  const global = new RegExp(re.source, flags);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const m of text.matchAll(global)) {
+    if (m[0].length === 0) continue;
+    const start = m.index!;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: m[0], match: true });
+    last = start + m[0].length;
+  }
+  if (last < text.length || segments.length === 0) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+// --- Query language ---
+
+export type SearchTerm =
+  | { kind: 'text' | 'phrase'; negated: boolean; value: string; re: RegExp }
+  | { kind: 'mention' | 'hashtag'; negated: boolean; value: string; re: RegExp }
+  | { kind: 'is'; negated: boolean; value: LineState }
+  | { kind: 'has'; negated: boolean; value: LineFeature }
+  | { kind: 'folder'; negated: boolean; value: string }
+  | { kind: 'after' | 'before'; negated: boolean; value: Date };
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+}
+
+type LineState = 'open' | 'done' | 'cancelled' | 'scheduled' | 'task' | 'checklist';
+type LineFeature = 'schedule' | 'link' | 'mention' | 'tag' | 'sync';
+
+const LINE_STATES: readonly string[] = ['open', 'done', 'cancelled', 'scheduled', 'task', 'checklist'];
+const LINE_FEATURES: readonly string[] = ['schedule', 'link', 'mention', 'tag', 'sync'];
+
+const FEATURE_RES: Record<LineFeature, RegExp> = {
+  schedule: /(?:^|\s)(?:>(?:today|\d{4}-\d{2}-\d{2}|\d{4}-(?:W\d{2}|Q[1-4]|\d{2})|(?:19|20)\d{2})|<\d{4}-\d{2}-\d{2})(?=\s|$)/,
+  link: /\[\[.+?\]\]|https?:\/\//,
+  mention: /(?:^|\s)@[A-Za-z_]/,
+  tag: /(?:^|\s)#[A-Za-z]/,
+  sync: /(?:^|\s)\^[A-Za-z0-9]{6}(?=\s|$)/,
+};
+
+const SCHEDULE_DATE_RE = /(?:^|\s)>(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const TASK_MARKER_RE = /^\s*([-+]) (?:\[([ x\->])\] )?/;
+
+// `-` (negation), optional `key:`, then a quoted or bare value
+const TOKEN_RE = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function tagRegExp(tag: string): RegExp {
+  return new RegExp(`(?:^|(?<=\\s))${escapeRegExp(tag)}(?![A-Za-z0-9_/\\-&])`, 'i');
+}
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** `YYYY-MM-DD`, `today`, `yesterday`, or a relative `-90d` / `-4w` / `+2d`; null if invalid. */
+export function parseQueryDate(raw: string, now: Date = new Date()): Date | null {
+  const v = raw.toLowerCase();
+  if (v === 'today') return startOfDay(now);
+  if (v === 'yesterday') return startOfDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+  const rel = v.match(/^([-+]?)(\d+)([dwm])$/);
+  if (rel) {
+    const n = Number(rel[2]) * (rel[1] === '+' ? 1 : -1);
+    const d = startOfDay(now);
+    if (rel[3] === 'd') d.setDate(d.getDate() + n);
+    else if (rel[3] === 'w') d.setDate(d.getDate() + n * 7);
+    else d.setMonth(d.getMonth() + n);
+    return d;
+  }
+  const abs = parseMarkdownISODateInput(v);
+  return abs ? startOfDay(abs) : null;
+}
+
+/**
+ * Parse a query string into terms. Unknown `key:value` pairs and invalid filter values are
+ * searched as plain text, so a typo never silently drops a term.
+ */
+export function parseSearchQuery(query: string, now: Date = new Date()): SearchQuery {
+  const terms: SearchTerm[] = [];
+  for (const m of query.matchAll(TOKEN_RE)) {
+    const negated = m[1] === '-';
+    const key = m[2]?.toLowerCase();
+    const quoted = m[3];
+    const bare = m[4];
+    const value = quoted ?? bare ?? '';
+
+    if (key === 'is' && LINE_STATES.includes(value.toLowerCase())) {
+      terms.push({ kind: 'is', negated, value: value.toLowerCase() as LineState });
+      continue;
+    }
+    if (key === 'has' && LINE_FEATURES.includes(value.toLowerCase())) {
+      terms.push({ kind: 'has', negated, value: value.toLowerCase() as LineFeature });
+      continue;
+    }
+    if (key === 'folder' && value) {
+      terms.push({ kind: 'folder', negated, value: value.replace(/^\/+|\/+$/g, '') });
+      continue;
+    }
+    if (key === 'after' || key === 'before') {
+      const date = parseQueryDate(value, now);
+      if (date) {
+        terms.push({ kind: key, negated, value: date });
+        continue;
+      }
+    }
+
+    const text = key !== undefined ? `${m[2]}:${value}` : value;
+    if (!text) continue;
+    if (quoted !== undefined && key === undefined) {
+      terms.push({ kind: 'phrase', negated, value: text, re: textQueryRegExp(text)! });
+    } else if (/^@[A-Za-z_]/.test(text)) {
+      terms.push({ kind: 'mention', negated, value: text, re: tagRegExp(text) });
+    } else if (/^#[A-Za-z]/.test(text)) {
+      terms.push({ kind: 'hashtag', negated, value: text, re: tagRegExp(text) });
+    } else {
+      terms.push({ kind: 'text', negated, value: text, re: new RegExp(escapeRegExp(text), 'i') });
+    }
+  }
+  return { terms };
+}
+
+/** True when the query has no terms (nothing to search for). */
+export function isEmptyQuery(q: SearchQuery): boolean {
+  return q.terms.length === 0;
+}
+
+/** True when the query explicitly asks for done or cancelled lines (`is:done`, `is:cancelled`). */
+export function queryIncludesDone(q: SearchQuery): boolean {
+  return q.terms.some((t) => t.kind === 'is' && !t.negated && (t.value === 'done' || t.value === 'cancelled'));
+}
+
+/** Matcher for the positive text, phrase, mention and hashtag terms (for highlighting); null if none. */
+export function queryHighlightRegExp(q: SearchQuery): RegExp | null {
+  const sources: string[] = [];
+  for (const t of q.terms) {
+    if (t.negated) continue;
+    if (t.kind === 'text' || t.kind === 'phrase' || t.kind === 'mention' || t.kind === 'hashtag') {
+      sources.push(t.re.source);
+    }
+  }
+  return sources.length > 0 ? new RegExp(sources.join('|'), 'i') : null;
+}
+
+/** Note-level facts a query can filter on before any file is read. */
+export interface QueryNoteInfo {
+  /** Path below the NotePlan root, e.g. `Notes/Work/Plan.txt` or `Calendar/20260901.txt`. */
+  path: string;
+  mentions: string[];
+  hashtags: string[];
+}
+
+function inFolder(path: string, folder: string): boolean {
+  const p = path.toLowerCase();
+  const f = folder.toLowerCase();
+  if (f === 'calendar') return p.startsWith('calendar/');
+  return p.startsWith(`notes/${f}/`);
+}
+
+/**
+ * Cheap pre-filter on folder and the indexed mentions/hashtags: false means no line in the
+ * note can match, so the file need not be read.
+ */
+export function noteMayMatchQuery(q: SearchQuery, note: QueryNoteInfo): boolean {
+  for (const t of q.terms) {
+    if (t.kind === 'folder' && inFolder(note.path, t.value) === t.negated) return false;
+    if (t.negated) continue;
+    if (t.kind === 'mention' && !note.mentions.some((m) => m.toLowerCase() === t.value.toLowerCase())) return false;
+    if (t.kind === 'hashtag' && !note.hashtags.some((h) => h.toLowerCase() === t.value.toLowerCase())) return false;
+  }
+  return true;
+}
+
+function lineState(text: string, isChecklist: boolean, state: LineState): boolean {
+  const m = text.match(TASK_MARKER_RE);
+  if (!m) return false;
+  if (state === 'task') return !isChecklist;
+  if (state === 'checklist') return isChecklist;
+  const box = m[2] ?? ' ';
+  if (state === 'open') return box === ' ';
+  if (state === 'done') return box === 'x';
+  if (state === 'cancelled') return box === '-';
+  return box === '>';
+}
+
+/** Date used by `after:` / `before:` for a line (see module doc). */
+export function lineDate(text: string, noteDate: Date | null): Date | null {
+  const scheduled = text.match(SCHEDULE_DATE_RE);
+  if (scheduled) {
+    const d = parseMarkdownISODateInput(scheduled[1]);
+    if (d) return startOfDay(d);
+  }
+  return noteDate ? startOfDay(noteDate) : null;
+}
+
+/**
+ * Whether one line satisfies every line-level term. `noteDate` is the fallback line date
+ * (calendar note date or mtime); lines without any date never satisfy `after:` / `before:`.
+ */
+export function lineMatchesQuery(
+  q: SearchQuery,
+  text: string,
+  isChecklist: boolean,
+  noteDate: Date | null,
+): boolean {
+  for (const t of q.terms) {
+    let ok: boolean;
+    switch (t.kind) {
+      case 'text':
+      case 'phrase':
+      case 'mention':
+      case 'hashtag':
+        ok = t.re.test(text);
+        break;
+      case 'is':
+        ok = lineState(text, isChecklist, t.value);
+        break;
+      case 'has':
+        ok = FEATURE_RES[t.value].test(text);
+        break;
+      case 'after':
+      case 'before': {
+        const d = lineDate(text, noteDate);
+        if (!d) return false;
+        ok = t.kind === 'after' ? d >= t.value : d < t.value;
+        break;
+      }
+      case 'folder':
+        continue; // note-level, see noteMayMatchQuery
+    }
+    if (ok === t.negated) return false;
+  }
+  return true;
+}
@@ -0,0 +1,140 @@
+/**
+ * `>today` carry-forward panel above the editor on today's daily note (see KNOWLEDGE § `>today`
+ * carry-forward). Lists open `>today` tasks from other notes with their source note. Checking an
+ * item completes it in the source file; clicking the text opens the source at that line.
+ *
+ * Nothing is written into the daily note: the list is recomputed from the index on every render,
+ * so a task keeps reappearing on each new day's note until it is done. Items already synced into
+ * the open note (same `^blockid`) are hidden, as are repeat copies of one synced line. Items can be
+ * dragged into the editor as synced lines (pane-drag.ts).
+ */
+
+import { noteIndex, type NoteEntry, type SearchResult } from './note-index';
+import { makePaneLineDraggable } from './pane-drag';
+import { collectBlockIds, findBlockId, stripBlockId } from './synced-lines';
+import { stripTrailingScheduleTokens } from './task-schedule';
+
+export interface TodayPanelHandlers {
+  onOpenSource: (entry: NoteEntry, lineNum: number) => void;
+  onComplete: (entry: NoteEntry, lineNum: number, lineText: string) => Promise<void>;
+}
+
+interface TodayPanelItem {
+  entry: NoteEntry;
+  line: SearchResult['lines'][number];
+}
+
+// Open by default; collapsing lasts for the session.
+let panelOpen = true;
+// Bumped on every render/hide so a slow search never paints over a newer state.
+let renderToken = 0;
+
+function displayText(lineText: string): string {
+  const body = lineText.replace(/^\s*[-+] (?:\[[ x\->]\] )?/, '');
+  return stripTrailingScheduleTokens(stripBlockId(body)) || body.trim();
+}
+
+export function wireTodayPanel(): void {
+  const header = document.getElementById('today-panel-header');
+  const panel = document.getElementById('today-panel');
+  if (!header || !panel) return;
+  header.addEventListener('click', () => {
+    if (panel.classList.contains('no-today-items')) return;
+    panelOpen = !panelOpen;
+    panel.classList.toggle('open', panelOpen);
+  });
+}
+
+export function hideTodayPanel(): void {
+  renderToken++;
+  document.getElementById('today-panel')?.classList.add('hidden');
+}
+
+/**
+ * Show the panel for today's note. `currentDocText` is the open editor content, used to hide
+ * items that already live in the note as synced lines.
+ */
+export async function renderTodayPanel(
+  currentRelPath: string,
+  currentDocText: string,
+  handlers: TodayPanelHandlers,
+): Promise<void> {
+  const panel = document.getElementById('today-panel');
+  const list = document.getElementById('today-panel-list');
+  const title = document.getElementById('today-panel-title');
+  if (!panel || !list || !title) return;
+
+  const token = ++renderToken;
+  const results = await noteIndex.searchTodayTasks();
+  if (token !== renderToken) return;
+
+  const syncedHere = new Set(collectBlockIds(currentDocText));
+  const seenIds = new Set<string>();
+  const items: TodayPanelItem[] = [];
+  for (const result of results) {
+    if (result.entry.relPath === currentRelPath) continue;
+    for (const line of result.lines) {
+      const id = findBlockId(line.text);
+      if (id && (syncedHere.has(id) || seenIds.has(id))) continue;
+      if (id) seenIds.add(id);
+      items.push({ entry: result.entry, line });
+    }
+  }
+
+  list.textContent = '';
+
+  if (items.length === 0) {
+    title.textContent = 'No >today tasks';
+    panel.classList.remove('open');
+    panel.classList.add('no-today-items');
+  } else {
+    title.textContent = `Today (${items.length})`;
+    panel.classList.remove('no-today-items');
+    panel.classList.toggle('open', panelOpen);
+    for (const item of items) {
+      list.appendChild(renderItem(item, handlers));
+    }
+  }
+
+  panel.classList.remove('hidden');
+}
+
+function renderItem(item: TodayPanelItem, handlers: TodayPanelHandlers): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'today-panel-item';
+
+  const check = document.createElement('button');
+  check.type = 'button';
+  check.className = 'today-panel-check';
+  check.title = 'Complete in source note';
+  check.innerHTML = item.line.isChecklist
+    ? '<i class="ri-checkbox-blank-line" aria-hidden="true"></i>'
+    : '<i class="ri-circle-line" aria-hidden="true"></i>';
+  check.addEventListener('click', (e) => {
+    e.stopPropagation();
+    check.disabled = true;
+    row.classList.add('today-panel-item--done');
+    void handlers.onComplete(item.entry, item.line.lineNum, item.line.text);
+  });
+
+  const text = document.createElement('span');
+  text.className = 'today-panel-text';
+  text.textContent = displayText(item.line.text);
+
+  const source = document.createElement('span');
+  source.className = 'today-panel-source';
+  source.textContent = item.entry.title;
+
+  row.appendChild(check);
+  row.appendChild(text);
+  row.appendChild(source);
+  row.addEventListener('click', () => {
+    handlers.onOpenSource(item.entry, item.line.lineNum);
+  });
+  makePaneLineDraggable(
+    row,
+    { relPath: item.entry.relPath, lineNum: item.line.lineNum, text: item.line.text },
+    text.textContent,
+  );
+  return row;
+}
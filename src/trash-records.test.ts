@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { expiredTrashItems, originalPath, recordsAfterDelete, recordsAfterMove } from './trash-records';
+
+const NOTES = 'Notes';
+const TRASH = 'Notes/@Trash';
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('recordsAfterMove', () => {
+  it('records the origin on the way in, re-keys inside the Trash and forgets on the way out', () => {
+    let records = recordsAfterMove({}, `${NOTES}/Work`, `${TRASH}/Work`, TRASH, 100);
+    expect(records).toEqual({ [`${TRASH}/Work`]: { from: `${NOTES}/Work`, trashedAt: 100 } });
+
+    records = recordsAfterMove(records, `${TRASH}/Work`, `${TRASH}/Work old`, TRASH, 200);
+    expect(records).toEqual({ [`${TRASH}/Work old`]: { from: `${NOTES}/Work`, trashedAt: 100 } });
+
+    expect(recordsAfterMove(records, `${TRASH}/Work old`, `${NOTES}/Work`, TRASH, 300)).toEqual({});
+  });
+
+  it('leaves records alone for moves outside the Trash', () => {
+    const records = { [`${TRASH}/Plan.txt`]: { from: `${NOTES}/Plan.txt`, trashedAt: 1 } };
+    expect(recordsAfterMove(records, `${NOTES}/A.txt`, `${NOTES}/Home/A.txt`, TRASH, 2)).toEqual(records);
+  });
+});
+
+describe('originalPath', () => {
+  const records = {
+    [`${TRASH}/Plan 2.txt`]: { from: `${NOTES}/Work/Plan.txt`, trashedAt: 1 },
+    [`${TRASH}/Clients`]: { from: `${NOTES}/Work/Clients`, trashedAt: 1 },
+    [`${TRASH}/Seen.txt`]: { from: null, trashedAt: 1 },
+  };
+
+  it('restores to the recorded path, under its original name', () => {
+    expect(originalPath(records, `${TRASH}/Plan 2.txt`, NOTES)).toBe(`${NOTES}/Work/Plan.txt`);
+  });
+
+  it('restores items inside a trashed folder relative to the folder origin', () => {
+    expect(originalPath(records, `${TRASH}/Clients/Acme.txt`, NOTES)).toBe(`${NOTES}/Work/Clients/Acme.txt`);
+  });
+
+  it('falls back to the Notes root without a known origin', () => {
+    expect(originalPath(records, `${TRASH}/Seen.txt`, NOTES)).toBe(`${NOTES}/Seen.txt`);
+    expect(originalPath({}, `${TRASH}/Old/Note.txt`, NOTES)).toBe(`${NOTES}/Note.txt`);
+  });
+});
+
+describe('recordsAfterDelete', () => {
+  it('drops the deleted item and everything under it', () => {
+    const records = {
+      [`${TRASH}/Work`]: { from: `${NOTES}/Work`, trashedAt: 1 },
+      [`${TRASH}/Work/Plan.txt`]: { from: `${NOTES}/Plan.txt`, trashedAt: 1 },
+      [`${TRASH}/Workshop`]: { from: `${NOTES}/Workshop`, trashedAt: 1 },
+    };
+    expect(Object.keys(recordsAfterDelete(records, `${TRASH}/Work`))).toEqual([`${TRASH}/Workshop`]);
+  });
+});
+
+describe('expiredTrashItems', () => {
+  it('expires old items, dates unknown ones from now and drops stale records', () => {
+    const now = 100 * DAY;
+    const records = {
+      [`${TRASH}/Old.txt`]: { from: `${NOTES}/Old.txt`, trashedAt: now - 31 * DAY },
+      [`${TRASH}/New.txt`]: { from: `${NOTES}/New.txt`, trashedAt: now - 2 * DAY },
+      [`${TRASH}/Gone.txt`]: { from: `${NOTES}/Gone.txt`, trashedAt: now - 90 * DAY },
+    };
+    const items = [`${TRASH}/Old.txt`, `${TRASH}/New.txt`, `${TRASH}/Unknown.txt`];
+    const result = expiredTrashItems(records, items, 30, now);
+    expect(result.expired).toEqual([`${TRASH}/Old.txt`]);
+    expect(result.records).toEqual({
+      [`${TRASH}/Old.txt`]: records[`${TRASH}/Old.txt`],
+      [`${TRASH}/New.txt`]: records[`${TRASH}/New.txt`],
+      [`${TRASH}/Unknown.txt`]: { from: null, trashedAt: now },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Where trashed notes and folders came from, so "Restore to original folder" can put them back,
+ * and when they were trashed, for the optional auto-purge. Kept in localStorage (the sidebar's
+ * store), keyed by the item's path in `@Trash`. Items trashed elsewhere (NotePlan, Finder) have
+ * no record: they restore to the Notes root and purge counts from when Daymark first saw them.
+ */
+
+export interface TrashRecord {
+  /** Path before it was trashed; null when it was trashed outside Daymark. */
+  from: string | null;
+  /** Epoch ms when it was trashed (or first seen in the Trash). */
+  trashedAt: number;
+}
+
+export type TrashRecords = Record<string, TrashRecord>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isUnder(relPath: string, dir: string): boolean {
+  return relPath === dir || relPath.startsWith(`${dir}/`);
+}
+
+function basename(relPath: string): string {
+  return relPath.slice(relPath.lastIndexOf('/') + 1);
+}
+
+/**
+ * Records after moving `from` → `to`: moving into `trashDir` records the origin, moving within it
+ * re-keys the records under `from`, moving out forgets them.
+ */
+export function recordsAfterMove(
+  records: TrashRecords,
+  from: string,
+  to: string,
+  trashDir: string,
+  now: number,
+): TrashRecords {
+  const next: TrashRecords = {};
+  for (const [path, record] of Object.entries(records)) {
+    if (!isUnder(path, from)) next[path] = record;
+    else if (isUnder(to, trashDir)) next[`${to}${path.slice(from.length)}`] = record;
+  }
+  if (!isUnder(from, trashDir) && isUnder(to, trashDir)) next[to] = { from, trashedAt: now };
+  return next;
+}
+
+/** Records left after deleting `relPath` (and everything under it). */
+export function recordsAfterDelete(records: TrashRecords, relPath: string): TrashRecords {
+  return Object.fromEntries(Object.entries(records).filter(([path]) => !isUnder(path, relPath)));
+}
+
+/**
+ * Where `trashPath` goes back to: its recorded origin, or its trashed ancestor's origin plus the
+ * rest of the path, else `notesRoot` under its current name.
+ */
+export function originalPath(records: TrashRecords, trashPath: string, notesRoot: string): string {
+  for (let path = trashPath; path.includes('/'); path = path.slice(0, path.lastIndexOf('/'))) {
+    const record = records[path];
+    if (record?.from) return `${record.from}${trashPath.slice(path.length)}`;
+  }
+  return `${notesRoot}/${basename(trashPath)}`;
+}
+
+/**
+ * Top-level Trash items older than `days` days. Items without a record get one dated `now`;
+ * records for items no longer in the Trash are dropped.
+ */
+export function expiredTrashItems(
+  records: TrashRecords,
+  items: readonly string[],
+  days: number,
+  now: number,
+): { expired: string[]; records: TrashRecords } {
+  const next: TrashRecords = {};
+  for (const path of Object.keys(records)) {
+    if (items.some((item) => isUnder(path, item))) next[path] = records[path];
+  }
+  const expired: string[] = [];
+  for (const item of items) {
+    next[item] ??= { from: null, trashedAt: now };
+    if (now - next[item].trashedAt >= days * DAY_MS) expired.push(item);
+  }
+  return { expired, records: next };
+}
@@ -0,0 +1,207 @@
+/**
+ * Weekly tasks panel above the editor on daily notes: open tasks from the day's ISO week note
+ * (`Calendar/YYYY-Www.txt`). Nothing is copied into the daily note; checking an item completes it
+ * in the weekly file, the calendar button schedules it from there (same tokens and synced copy as
+ * the editor's Schedule menu), and clicking the text opens the weekly note at that line.
+ *
+ * Items already synced into the open daily note (same `^blockid`) are hidden; rows can be dragged
+ * into the editor as synced lines (pane-drag.ts).
+ */
+
+import { noteIndex, type NoteEntry, type SearchResult } from './note-index';
+import { makePaneLineDraggable } from './pane-drag';
+import { collectBlockIds, findBlockId, stripBlockId } from './synced-lines';
+import {
+  formatScheduleMenuDate,
+  nextIsoWeekRef,
+  stripTrailingScheduleTokens,
+  type ScheduleTarget,
+} from './task-schedule';
+
+export interface WeekPanelHandlers {
+  onOpenSource: (entry: NoteEntry, lineNum: number) => void;
+  onComplete: (entry: NoteEntry, lineNum: number, lineText: string) => Promise<void>;
+  onSchedule: (entry: NoteEntry, lineNum: number, lineText: string, target: ScheduleTarget) => Promise<void>;
+}
+
+type WeekPanelLine = SearchResult['lines'][number];
+
+// Open by default; collapsing lasts for the session.
+let panelOpen = true;
+// Bumped on every render/hide so a slow read never paints over a newer state.
+let renderToken = 0;
+// Closes the open schedule menu and drops its document listeners
+let dismissScheduleMenu: (() => void) | null = null;
+
+function displayText(lineText: string): string {
+  const body = lineText.replace(/^\s*[-+] (?:\[[ x\->]\] )?/, '');
+  return stripTrailingScheduleTokens(stripBlockId(body)) || body.trim();
+}
+
+export function wireWeekPanel(): void {
+  const header = document.getElementById('week-panel-header');
+  const panel = document.getElementById('week-panel');
+  if (!header || !panel) return;
+  header.addEventListener('click', () => {
+    if (panel.classList.contains('no-week-items')) return;
+    panelOpen = !panelOpen;
+    panel.classList.toggle('open', panelOpen);
+  });
+}
+
+export function hideWeekPanel(): void {
+  renderToken++;
+  closeScheduleMenu();
+  document.getElementById('week-panel')?.classList.add('hidden');
+}
+
+/**
+ * Show the panel for the daily note of `day`. `weekRelPath`/`weekTitle` name the week's note;
+ * `currentDocText` is the open editor content, used to hide items already synced into it.
+ */
+export async function renderWeekPanel(
+  day: Date,
+  weekRelPath: string,
+  weekTitle: string,
+  currentDocText: string,
+  handlers: WeekPanelHandlers,
+): Promise<void> {
+  const panel = document.getElementById('week-panel');
+  const list = document.getElementById('week-panel-list');
+  const title = document.getElementById('week-panel-title');
+  if (!panel || !list || !title) return;
+
+  const token = ++renderToken;
+  const results = await noteIndex.searchOpenTasks(weekRelPath);
+  if (token !== renderToken) return;
+
+  const syncedHere = new Set(collectBlockIds(currentDocText));
+  const entry = results[0]?.entry;
+  const lines = (results[0]?.lines ?? []).filter((line) => {
+    const id = findBlockId(line.text);
+    return !id || !syncedHere.has(id);
+  });
+
+  closeScheduleMenu();
+  list.textContent = '';
+
+  if (!entry || lines.length === 0) {
+    title.textContent = `No open tasks in ${weekTitle}`;
+    panel.classList.remove('open');
+    panel.classList.add('no-week-items');
+  } else {
+    title.textContent = `${weekTitle} (${lines.length})`;
+    panel.classList.remove('no-week-items');
+    panel.classList.toggle('open', panelOpen);
+    for (const line of lines) {
+      list.appendChild(renderItem(entry, line, day, handlers));
+    }
+  }
+
+  panel.classList.remove('hidden');
+}
+
+function renderItem(entry: NoteEntry, line: WeekPanelLine, day: Date, handlers: WeekPanelHandlers): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'week-panel-item';
+
+  const check = document.createElement('button');
+  check.type = 'button';
+  check.className = 'week-panel-check';
+  check.title = 'Complete in weekly note';
+  check.innerHTML = line.isChecklist
+    ? '<i class="ri-checkbox-blank-line" aria-hidden="true"></i>'
+    : '<i class="ri-circle-line" aria-hidden="true"></i>';
+  check.addEventListener('click', (e) => {
+    e.stopPropagation();
+    check.disabled = true;
+    row.classList.add('week-panel-item--done');
+    void handlers.onComplete(entry, line.lineNum, line.text);
+  });
+
+  const text = document.createElement('span');
+  text.className = 'week-panel-text';
+  text.textContent = displayText(line.text);
+
+  const schedule = document.createElement('button');
+  schedule.type = 'button';
+  schedule.className = 'week-panel-schedule';
+  schedule.title = 'Schedule…';
+  schedule.innerHTML = '<i class="ri-calendar-event-line" aria-hidden="true"></i>';
+  schedule.addEventListener('click', (e) => {
+    e.stopPropagation();
+    showScheduleMenu(schedule, day, (target) => {
+      row.classList.add('week-panel-item--done');
+      void handlers.onSchedule(entry, line.lineNum, line.text, target);
+    });
+  });
+
+  row.appendChild(check);
+  row.appendChild(text);
+  row.appendChild(schedule);
+  row.addEventListener('click', () => {
+    handlers.onOpenSource(entry, line.lineNum);
+  });
+  makePaneLineDraggable(row, { relPath: entry.relPath, lineNum: line.lineNum, text: line.text }, text.textContent);
+  return row;
+}
+
+function closeScheduleMenu() {
+  dismissScheduleMenu?.();
+}
+
+/** Small schedule menu under `anchor`: the panel's day, today, tomorrow, next week. */
+function showScheduleMenu(anchor: HTMLElement, day: Date, onPick: (target: ScheduleTarget) => void) {
+  closeScheduleMenu();
+  const menu = document.createElement('div');
+  menu.className = 'task-context-menu';
+  menu.setAttribute('role', 'menu');
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const next = nextIsoWeekRef();
+  const items: [string, ScheduleTarget][] = [
+    [`This day (${formatScheduleMenuDate(day)})`, { kind: 'date', date: day }],
+    ['Today (>today)', { kind: 'today' }],
+    [`Tomorrow (${formatScheduleMenuDate(tomorrow)})`, { kind: 'date', date: tomorrow }],
+    [`Next week (W${next.week})`, { kind: 'week', year: next.year, week: next.week }],
+  ];
+
+  const dismiss = () => {
+    menu.remove();
+    dismissScheduleMenu = null;
+    document.removeEventListener('mousedown', onDocDown, true);
+    document.removeEventListener('keydown', onKey, true);
+  };
+  const onDocDown = (e: MouseEvent) => {
+    if (!menu.contains(e.target as Node)) dismiss();
+  };
+  const onKey = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') dismiss();
+  };
+
+  for (const [label, target] of items) {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'task-context-menu-item';
+    btn.setAttribute('role', 'menuitem');
+    btn.textContent = label;
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      dismiss();
+      onPick(target);
+    });
+    menu.appendChild(btn);
+  }
+
+  document.body.appendChild(menu);
+  dismissScheduleMenu = dismiss;
+  const rect = anchor.getBoundingClientRect();
+  const width = menu.getBoundingClientRect().width;
+  menu.style.position = 'fixed';
+  menu.style.left = `${Math.max(8, Math.min(rect.right - width, window.innerWidth - width - 8))}px`;
+  menu.style.top = `${rect.bottom + 4}px`;
+  menu.style.zIndex = '10000';
+  document.addEventListener('mousedown', onDocDown, true);
+  document.addEventListener('keydown', onKey, true);
+}